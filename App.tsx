@@ -1,109 +1,643 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { CameraView } from './components/CameraView';
 import { FeedbackPanel } from './components/FeedbackPanel';
 import { ReferenceVisualizer } from './components/ReferenceVisualizer';
-import { WORKOUTS } from './constants';
-import { WorkoutType, LogMessage } from './types';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ProgramPanel, describeBlock } from './components/ProgramPanel';
+import { SessionSummary } from './components/SessionSummary';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { WorkoutType, ExerciseId, LogMessage, RepEvent, HoldStats, TrackingStats, WorkoutSession, PoseRecording, WorkoutProgram, ProgramProgress, BodyCalibration, BodyProportions, CoachReport, PoseTelemetry, MotionHint, HudCue, CuePriority, SafetySeverity } from './types';
 import { GeminiLiveService } from './services/geminiLive';
-import { Activity, Play, Square, AlertCircle, Info, Dumbbell } from 'lucide-react';
+import { ScriptedCoach, loadScriptedCoachOptions } from './services/scriptedCoach';
+import { CoachConnection } from './services/coachConnection';
+import { Microphone } from './services/microphone';
+import { CueVoice } from './services/cueVoice';
+import { CueArbiter } from './services/cueArbiter';
+import { COACH_PROVIDERS, CoachCallbacks, CoachProvider, CoachProviderId, FrameStats } from './services/coachProvider';
+import { sessionStore, SESSION_SCHEMA_VERSION } from './services/sessionStore';
+import { programStore } from './services/programStore';
+import { calibrationStore } from './services/calibrationStore';
+import { DEFAULT_POSE_MODEL, POSE_MODELS, PoseModel } from './services/poseDetector';
+import { ProgramRunner } from './services/programRunner';
+import { DEFAULT_IMBALANCE_PCT } from './services/symmetryTracker';
+import { exerciseRegistry, getWorkout } from './services/exerciseRegistry';
+import { parseExerciseDefinitions } from './utils/exerciseDefinition';
+import { summarizeSets, summarizeSymmetry, describeSafetyIssue, isSafetyCue } from './utils/sessionStats';
+import { parseSessionJson, downloadFile } from './utils/sessionExport';
+import { parsePoseRecording } from './services/poseRecorder';
+import { parseVoiceCommand, VoiceCommand } from './utils/voiceCommands';
+import { playVideo } from './utils/mediaUtils';
+import { Activity, Play, Square, AlertCircle, Info, Dumbbell, Circle, Upload, Camera, Film, SkipForward, Timer, Trash2, FileJson, RefreshCw, Mic, MicOff, Pause, Volume2, VolumeX } from 'lucide-react';
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Coach safety flags on the HUD: only a high-severity flag preempts everything
+const SAFETY_PRIORITY: Record<SafetySeverity, CuePriority> = { high: 'critical', medium: 'high', low: 'normal' };
 
 export default function App() {
-  const [activeWorkout, setActiveWorkout] = useState<WorkoutType>(WorkoutType.SQUAT);
+  const [activeWorkout, setActiveWorkout] = useState<ExerciseId>(WorkoutType.SQUAT);
+  // Built-in plus user-defined exercises, refreshed when the registry changes
+  const [exercises, setExercises] = useState(() => exerciseRegistry.list());
   const [isConnected, setIsConnected] = useState(false);
   const [logs, setLogs] = useState<LogMessage[]>([]);
-  const [latestFeedback, setLatestFeedback] = useState<string | null>(null);
+  // The one cue on the HUD, picked by the cue arbiter
+  const [hudCue, setHudCue] = useState<HudCue | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [repEvents, setRepEvents] = useState<RepEvent[]>([]);
+  const [holdStats, setHoldStats] = useState<HoldStats | null>(null);
+  const [holdTargetOverride, setHoldTargetOverride] = useState<number | null>(null);
+  const [imbalanceThreshold, setImbalanceThreshold] = useState(DEFAULT_IMBALANCE_PCT);
+  const [history, setHistory] = useState<WorkoutSession[]>([]);
+  const [summarySession, setSummarySession] = useState<WorkoutSession | null>(null);
+  const [isRecordingPose, setIsRecordingPose] = useState(false);
+  const [replayRecording, setReplayRecording] = useState<PoseRecording | null>(null);
+  // Uploaded video to analyze instead of the webcam
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [streamToCoach, setStreamToCoach] = useState(true);
+  // Sessions on an uploaded video can run without a coach
+  const [isLocalSession, setIsLocalSession] = useState(false);
+  const isSessionActive = isConnected || isLocalSession;
+  // Workout programs: ordered blocks that drive the session
+  const [programs, setPrograms] = useState<WorkoutProgram[]>(() => programStore.list());
+  const [selectedProgramId, setSelectedProgramId] = useState<string | null>(null);
+  const [programProgress, setProgramProgress] = useState<ProgramProgress | null>(null);
+  const [setKey, setSetKey] = useState(0);
+  // When each program set began, so sets don't have to be guessed from gaps between reps
+  const [setStarts, setSetStarts] = useState<number[] | null>(null);
+  // Body calibration for whoever is training, keyed by their name
+  const [user, setUser] = useState(() => calibrationStore.activeUser);
+  const [calibration, setCalibration] = useState<BodyCalibration | null>(() => calibrationStore.get(calibrationStore.activeUser));
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  // Count a second person on the same camera; only the coached one is saved
+  const [partnerMode, setPartnerMode] = useState(false);
+  const [poseModel, setPoseModel] = useState<PoseModel>(DEFAULT_POSE_MODEL);
+  // Without an API key the scripted coach keeps the app usable for demos
+  const [coachProvider, setCoachProvider] = useState<CoachProviderId>(process.env.API_KEY ? 'gemini' : 'scripted');
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  // Set while a dropped coach connection is being retried
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  // Opt-in: voice commands, and questions for a coach that listens
+  const [micOn, setMicOn] = useState(false);
+  // Paused by voice: reps and holds don't count until resumed
+  const [isPaused, setIsPaused] = useState(false);
+  // Reads on-device cues aloud, for when the screen is out of sight
+  const [speakCues, setSpeakCues] = useState(CueVoice.supported);
+  const [now, setNow] = useState(Date.now());
   
   const videoElementRef = useRef<HTMLVideoElement | null>(null);
-  const serviceRef = useRef<GeminiLiveService | null>(null);
-  const feedbackTimeoutRef = useRef<number | null>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const exerciseInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const serviceRef = useRef<CoachProvider | null>(null);
+  // Created once, so callbacks can hold on to it
+  const cueArbiterRef = useRef<CueArbiter | null>(null);
+  if (!cueArbiterRef.current) cueArbiterRef.current = new CueArbiter({ onChange: setHudCue });
+  const cueArbiter = cueArbiterRef.current;
+  // In-progress session, saved to history when the session ends
+  const draftRef = useRef<WorkoutSession | null>(null);
+  // Set when a new set begins, so the next hold update starts its own entry
+  const newHoldSetRef = useRef(true);
+  // Program set starts within the draft; null outside a program
+  const draftSetStartsRef = useRef<number[] | null>(null);
+  const programRunnerRef = useRef<ProgramRunner | null>(null);
+  const pausedRef = useRef(false);
+  const cueVoiceRef = useRef(new CueVoice());
+  // The mic outlives renders, so it calls whatever handler is current
+  const speechHandlerRef = useRef<(text: string) => void>(() => {});
+
+  useEffect(() => exerciseRegistry.subscribe(() => setExercises(exerciseRegistry.list())), []);
+
+  useEffect(() => {
+    sessionStore.list().then(setHistory).catch(e => console.error("Failed to load history", e));
+  }, []);
 
   const handleVideoReady = useCallback((video: HTMLVideoElement) => {
     videoElementRef.current = video;
   }, []);
 
-  const addLog = useCallback((text: string, role: 'user' | 'model') => {
-    setLogs(prev => [...prev, {
+  // Per-set reps and time under tension for the session summary
+  const sets = useMemo(() => summarizeSets(repEvents, setStarts ?? undefined), [repEvents, setStarts]);
+  const symmetry = useMemo(() => summarizeSymmetry(repEvents, imbalanceThreshold), [repEvents, imbalanceThreshold]);
+
+  const selectedProgram = programs.find(p => p.id === selectedProgramId) ?? null;
+  const currentBlock = selectedProgram && programProgress ? selectedProgram.blocks[programProgress.blockIndex] : null;
+
+  const workoutDef = getWorkout(activeWorkout);
+  const holdDef = workoutDef.hold;
+  const holdTargetSeconds = currentBlock?.targetSeconds ?? holdTargetOverride ?? holdDef?.targetSeconds;
+
+  const handleRep = useCallback((event: RepEvent) => {
+    // Reps during a program rest period don't count; CameraView stops counting while paused
+    if (programRunnerRef.current?.state.phase === 'REST') return;
+    setRepEvents(prev => [...prev, event]);
+    draftRef.current?.reps.push(event);
+    programRunnerRef.current?.recordRep(event.timestamp);
+    cueArbiter.push({ text: `Rep ${event.count}`, source: 'rep' });
+  }, []);
+
+  const handleHoldUpdate = useCallback((stats: HoldStats) => {
+    setHoldStats(stats);
+    const draft = draftRef.current;
+    // The timer keeps running through a program rest, which belongs to no set
+    if (!draft || programRunnerRef.current?.state.phase === 'REST') return;
+    if (newHoldSetRef.current || draft.holds.length === 0) draft.holds.push(stats);
+    else draft.holds[draft.holds.length - 1] = stats;
+    newHoldSetRef.current = false;
+    programRunnerRef.current?.recordHold(stats.validMs, Date.now());
+  }, []);
+
+  // A fault that persists keeps being pushed, so it stays up or comes back once
+  // its cooldown has passed. Recordings replay without a session, but still
+  // show their cues.
+  const handleCueUpdate = useCallback((text: string | null) => {
+    if (text) cueArbiter.push({ text, source: 'heuristic' });
+  }, []);
+
+  const handleCue = useCallback((text: string) => {
+    if (!draftRef.current) return;
+    draftRef.current.cues.push({ text, source: 'heuristic', timestamp: Date.now() });
+    cueVoiceRef.current.speak(text);
+  }, []);
+
+  useEffect(() => cueVoiceRef.current.setEnabled(speakCues), [speakCues]);
+
+  const handleTelemetry = useCallback((sample: PoseTelemetry) => {
+    serviceRef.current?.sendTelemetry(sample);
+  }, []);
+
+  const handleMotion = useCallback((motion: MotionHint) => {
+    serviceRef.current?.setMotion(motion);
+  }, []);
+
+  const handleTrackingStats = useCallback((stats: TrackingStats) => {
+    if (draftRef.current) draftRef.current.tracking = stats;
+  }, []);
+
+  const startDraft = useCallback((workout: ExerciseId) => {
+    newHoldSetRef.current = true;
+    draftSetStartsRef.current = null;
+    draftRef.current = {
+      id: crypto.randomUUID(),
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      workout,
+      startTime: Date.now(),
+      endTime: 0,
+      sets: [],
+      reps: [],
+      holds: [],
+      cues: [],
+      tracking: { GOOD: 0, POOR: 0, LOST: 0 },
+      transcript: [],
+      coachReports: []
+    };
+  }, []);
+
+  const finishSession = useCallback(async (showSummary = true) => {
+    const draft = draftRef.current;
+    draftRef.current = null;
+    if (!draft) return;
+    // Nothing worth keeping
+    if (draft.reps.length === 0 && !draft.holds.some(hold => hold.validMs > 0) && draft.cues.length === 0) return;
+
+    const session: WorkoutSession = { ...draft, endTime: Date.now(), sets: summarizeSets(draft.reps, draftSetStartsRef.current ?? undefined) };
+    if (showSummary) setSummarySession(session);
+    try {
+      await sessionStore.save(session);
+      setHistory(prev => [session, ...prev]);
+    } catch (e) {
+      console.error("Failed to save session", e);
+    }
+  }, []);
+
+  const changeUser = useCallback((name: string) => {
+    setUser(name);
+    calibrationStore.activeUser = name;
+    setCalibration(calibrationStore.get(calibrationStore.activeUser));
+  }, []);
+
+  const handleCalibrated = useCallback((proportions: BodyProportions) => {
+    const saved: BodyCalibration = { ...proportions, user: calibrationStore.activeUser, capturedAt: Date.now() };
+    calibrationStore.save(saved);
+    setCalibration(saved);
+    setIsCalibrating(false);
+  }, []);
+
+  const clearCalibration = useCallback(() => {
+    calibrationStore.delete(calibrationStore.activeUser);
+    setCalibration(null);
+  }, []);
+
+  const saveProgram = useCallback((program: WorkoutProgram) => {
+    setPrograms(programStore.save(program));
+    setSelectedProgramId(program.id);
+  }, []);
+
+  const deleteProgram = useCallback((id: string) => {
+    setPrograms(programStore.delete(id));
+    setSelectedProgramId(prev => prev === id ? null : prev);
+  }, []);
+
+  // Rest countdown
+  useEffect(() => {
+    if (programProgress?.phase !== 'REST') return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (!pausedRef.current) programRunnerRef.current?.tick(Date.now());
+    }, 250);
+    return () => clearInterval(interval);
+  }, [programProgress?.phase]);
+
+  const importSession = useCallback(async (file: File) => {
+    try {
+      const session = parseSessionJson(await file.text());
+      await sessionStore.save(session);
+      setHistory(prev => [session, ...prev.filter(s => s.id !== session.id)].sort((a, b) => b.startTime - a.startTime));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to import session");
+    }
+  }, []);
+
+  const deleteSession = useCallback(async (id: string) => {
+    try {
+      await sessionStore.delete(id);
+      setHistory(prev => prev.filter(s => s.id !== id));
+    } catch (e) {
+      console.error("Failed to delete session", e);
+    }
+  }, []);
+
+  // Raw landmark recordings for reproducing detection bugs offline
+  const handleRecordingComplete = useCallback((recording: PoseRecording) => {
+    const name = `formfit-pose-${recording.workout.replace(/\s+/g, '-').toLowerCase()}-${recording.recordedAt.slice(0, 19).replace(/:/g, '')}`;
+    downloadFile(`${name}.json`, JSON.stringify(recording), 'application/json');
+  }, []);
+
+  const importExercises = useCallback(async (file: File) => {
+    try {
+      const defs = parseExerciseDefinitions(await file.text());
+      exerciseRegistry.add(defs);
+      setActiveWorkout(defs[0].id);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load exercise");
+    }
+  }, []);
+
+  const removeExercise = useCallback((id: ExerciseId) => {
+    setActiveWorkout(prev => prev === id ? WorkoutType.SQUAT : prev);
+    exerciseRegistry.remove(id);
+  }, []);
+
+  const loadRecording = useCallback(async (file: File) => {
+    try {
+      const recording = parsePoseRecording(await file.text());
+      if (!exerciseRegistry.has(recording.workout)) {
+        throw new Error(`This recording uses the exercise "${recording.workout}", which isn't loaded`);
+      }
+      setActiveWorkout(recording.workout);
+      setRepEvents([]);
+      setSetStarts(null);
+      setHoldStats(null);
+      setReplayRecording(recording);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load recording");
+    }
+  }, []);
+
+  const addLog = useCallback((text: string, role: LogMessage['role']) => {
+    const log: LogMessage = {
         id: Math.random().toString(36).substring(7),
         role,
         text,
         timestamp: new Date()
-    }]);
-  }, []);
-
-  const updateFeedback = useCallback((text: string | null) => {
-      setLatestFeedback(text);
-      // Clear previous timeout if any
-      if (feedbackTimeoutRef.current) window.clearTimeout(feedbackTimeoutRef.current);
-      
-      // If text is set, clear it after 5 seconds to let heuristic feedback shine through
-      if (text) {
-          feedbackTimeoutRef.current = window.setTimeout(() => {
-              setLatestFeedback(null);
-          }, 5000);
+    };
+    setLogs(prev => [...prev, log]);
+    draftRef.current?.transcript.push(log);
+  }, []);
+
+  // Structured coach reports: grade the on-device reps and go in the log. Only
+  // safety flags reach the HUD, ranked by severity.
+  const handleCoachReport = useCallback((report: CoachReport) => {
+    const draft = draftRef.current;
+    draft?.coachReports.push(report);
+    switch (report.type) {
+      case 'rep': {
+        // Counts restart each set, so match the most recent rep with that count.
+        // When the coach's count has drifted from ours the grade is only logged
+        // (it stays in the coach reports) rather than pinned on the wrong rep.
+        const rep = [...(draft?.reps ?? [])].reverse().find(r => r.count === report.count);
+        if (rep) rep.coachQuality = report.quality;
+        addLog(`Coach graded rep ${report.count}: ${report.quality}${rep ? '' : " (no matching rep counted here)"}`, 'system');
+        break;
       }
+      case 'safety':
+        addLog(`Safety flag: ${describeSafetyIssue(report)}`, 'system');
+        cueArbiter.push({ text: describeSafetyIssue(report), source: 'safety', priority: SAFETY_PRIORITY[report.severity] });
+        break;
+      case 'formScore':
+        addLog(`Form score: ${report.score}/100`, 'system');
+        break;
+    }
   }, []);
 
+  const setPaused = (paused: boolean) => {
+    pausedRef.current = paused;
+    setIsPaused(paused);
+  };
+
+  const stopSession = async () => {
+    if (serviceRef.current) {
+        const { frames, bytes } = serviceRef.current.frameStats;
+        if (frames > 0) addLog(`Sent ${frames} frames (${formatBytes(bytes)}) to the coach.`, 'system');
+        await serviceRef.current.disconnect();
+        serviceRef.current = null;
+    }
+    setIsConnected(false);
+    setIsLocalSession(false);
+    setIsReconnecting(false);
+    setPaused(false);
+    cueVoiceRef.current.stop();
+    cueArbiter.reset();
+    programRunnerRef.current = null;
+    setProgramProgress(null);
+    // The webcam preview keeps running between sessions
+    if (videoFile) videoElementRef.current?.pause();
+    addLog("Session ended.", 'system');
+    finishSession();
+  };
+
   const toggleSession = async () => {
-    if (isConnected) {
-        // Disconnect
-        if (serviceRef.current) {
-            await serviceRef.current.disconnect();
-            serviceRef.current = null;
-        }
-        setIsConnected(false);
-        updateFeedback(null);
-        addLog("Session ended.", 'system');
+    if (isSessionActive) {
+        await stopSession();
     } else {
+        const useCoach = !videoFile || streamToCoach;
+        const isGemini = coachProvider === 'gemini';
         // Connect
-        if (!process.env.API_KEY) {
+        if (useCoach && isGemini && !process.env.API_KEY) {
             setError("API Key not found in environment.");
             return;
         }
         if (!videoElementRef.current) {
-            setError("Camera not ready.");
+            setError(videoFile ? "Video not ready." : "Camera not ready.");
             return;
         }
 
         setError(null);
-        updateFeedback("Align with the ghost overlay!");
-        
-        const service = new GeminiLiveService({
-            apiKey: process.env.API_KEY,
+        setRepEvents([]);
+        setSetStarts(null);
+        setHoldStats(null);
+        setPaused(false);
+        setIsCalibrating(false);
+        setFrameStats(null);
+
+        const missing = selectedProgram?.blocks.find(block => !exerciseRegistry.has(block.workout));
+        if (missing) {
+            setError(`Program "${selectedProgram!.name}" uses "${missing.workout}", which is no longer loaded. Edit the program first.`);
+            return;
+        }
+
+        // A selected program decides the exercise, starting with its first block
+        const workout = selectedProgram ? selectedProgram.blocks[0].workout : activeWorkout;
+        setActiveWorkout(workout);
+        const startProgram = () => {
+            if (!selectedProgram) return;
+            const runner = new ProgramRunner({
+                program: selectedProgram,
+                onProgress: setProgramProgress,
+                onBlockChange: (block, index) => {
+                    if (index === 0) return;
+                    // Each block is saved as its own session in history
+                    finishSession(false);
+                    startDraft(block.workout);
+                    setActiveWorkout(block.workout);
+                    serviceRef.current?.setWorkout(block.workout);
+                    addLog(`Up next: ${getWorkout(block.workout).name} (${describeBlock(block)})`, 'system');
+                },
+                onSetStart: () => {
+                    const now = Date.now();
+                    draftSetStartsRef.current = [...(draftSetStartsRef.current ?? []), now];
+                    setSetStarts(prev => [...(prev ?? []), now]);
+                    newHoldSetRef.current = true;
+                    setSetKey(k => k + 1);
+                },
+                onComplete: () => {
+                    addLog(`${selectedProgram.name} complete!`, 'system');
+                    stopSession();
+                }
+            });
+            programRunnerRef.current = runner;
+            runner.start();
+        };
+
+        // Uploaded videos are analyzed from the start
+        const video = videoElementRef.current;
+        if (videoFile) video.currentTime = 0;
+
+        // On-device form checks keep coaching without a coach provider
+        const startLocalSession = (message: string) => {
+            startDraft(workout);
+            startProgram();
+            setIsLocalSession(true);
+            addLog(message, 'system');
+            playVideo(video);
+        };
+
+        if (!useCoach) {
+            startLocalSession(`Analyzing ${videoFile!.name} locally.`);
+            return;
+        }
+        if (isGemini && !navigator.onLine) {
+            startLocalSession("Offline: coaching from on-device form checks only.");
+            return;
+        }
+
+        // The scripted coach can play a script and drop on cue (?script=, ?drop=);
+        // a script that fails to load falls back to the exercise tips
+        let scriptedOptions = {};
+        if (!isGemini) {
+            try {
+                scriptedOptions = await loadScriptedCoachOptions(window.location.search);
+            } catch (e) {
+                setError(e instanceof Error ? e.message : "Failed to load coach script");
+            }
+        }
+
+        cueArbiter.push({ text: "Align with the ghost overlay!", source: 'system' });
+
+        // Errors before the session opens mean the coach is unreachable (e.g. gym
+        // Wi-Fi), so the workout carries on with on-device checks instead. Later
+        // drops are retried by CoachConnection while rep counting and form checks
+        // keep running; only once it gives up does the session go local.
+        let opened = false;
+        const coachName = COACH_PROVIDERS[coachProvider].label;
+        const coachSpeaks = COACH_PROVIDERS[coachProvider].speaks;
+        // Transcription arrives in pieces; each turn is one HUD cue that grows,
+        // and turns leading with "STOP" take the screen as safety cues
+        let turn = { id: 0, text: '' };
+        const callbacks: CoachCallbacks = {
             onTranscription: (text, role) => {
                 addLog(text, role);
                 if (role === 'model') {
-                    updateFeedback(text);
+                    turn = { ...turn, text: turn.text + text };
+                    const turnText = turn.text.trim();
+                    cueArbiter.push(isSafetyCue(turnText)
+                        ? { text: turnText, source: 'safety', label: coachName, id: `coach-${turn.id}` }
+                        : { text: turnText, source: 'coach', label: coachName, id: `coach-${turn.id}` });
+                    draftRef.current?.cues.push({ text, source: coachProvider, timestamp: Date.now() });
+                    // A coach without audio of its own is read out like the on-device cues
+                    if (!coachSpeaks) cueVoiceRef.current.speak(text);
                 }
             },
+            // On-device cues wait while the coach is talking
+            onAudio: coachSpeaks ? (speaking) => cueVoiceRef.current.setCoachSpeaking(speaking) : undefined,
+            onFrameStats: setFrameStats,
+            onEvent: (event) => {
+                if (event.type === 'report') handleCoachReport(event.report);
+                else turn = { id: turn.id + 1, text: '' };
+            },
             onConnect: () => {
+                opened = true;
+                startDraft(workout);
+                startProgram();
                 setIsConnected(true);
-                updateFeedback("Align with the ghost overlay!");
-                addLog("Connected! Watch the model and align your form.", 'system');
+                if (videoFile) {
+                    playVideo(video);
+                    addLog(`Connected! Streaming ${videoFile.name} for analysis.`, 'system');
+                } else {
+                    cueArbiter.push({ text: "Align with the ghost overlay!", source: 'system' });
+                    addLog("Connected! Watch the model and align your form.", 'system');
+                }
             },
             onDisconnect: () => {
-                setIsConnected(false);
+                if (!opened) return;
+                // The draft and program carry on, now without the coach
                 serviceRef.current = null;
-                updateFeedback(null);
+                setIsReconnecting(false);
+                setIsConnected(false);
+                setIsLocalSession(true);
+                addLog(`Lost ${coachName}: coaching from on-device form checks only.`, 'system');
             },
             onError: (err) => {
+                console.error(err, err.cause);
+                if (!opened) {
+                    serviceRef.current = null;
+                    startLocalSession(`Couldn't reach ${coachName} (${err.message}): coaching from on-device form checks only.`);
+                    return;
+                }
                 setError(err.message);
-                setIsConnected(false);
-                updateFeedback("Connection Error");
+            }
+        };
+        const service = new CoachConnection({
+            ...callbacks,
+            create: (cb) => isGemini
+                ? new GeminiLiveService({ apiKey: process.env.API_KEY!, ...cb })
+                : new ScriptedCoach({ ...cb, ...scriptedOptions }),
+            onReconnecting: (attempt, delayMs) => {
+                setIsReconnecting(true);
+                addLog(`Connection to ${coachName} lost, retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt}).`, 'system');
+            },
+            onReconnected: () => {
+                setIsReconnecting(false);
+                addLog(`Reconnected to ${coachName}.`, 'system');
             }
         });
 
         try {
-            await service.connect(activeWorkout, videoElementRef.current);
+            await service.connect(workout, video);
             serviceRef.current = service;
         } catch (e) {
             console.error(e);
-            setError("Failed to connect to Live API");
-            updateFeedback("Failed to connect");
+            setError(`Failed to connect to ${coachName}`);
+            cueArbiter.push({ text: "Failed to connect", source: 'system', priority: 'high' });
         }
     }
   };
 
+  const pauseSession = (paused: boolean) => {
+    setPaused(paused);
+    if (videoFile) {
+        if (paused) videoElementRef.current?.pause();
+        else if (videoElementRef.current) playVideo(videoElementRef.current);
+    }
+    serviceRef.current?.sendContext(paused
+        ? "The user paused the session. Stay quiet until they resume."
+        : "The user resumed the session. Carry on coaching.");
+    addLog(paused ? "Paused." : "Resumed.", 'system');
+  };
+
+  // Without a program, "next" moves on to the next exercise in the list
+  const nextExercise = () => {
+    const runner = programRunnerRef.current;
+    if (runner) {
+        runner.skipBlock(Date.now());
+        return;
+    }
+    const index = exercises.findIndex(def => def.id === activeWorkout);
+    const next = exercises[(index + 1) % exercises.length].id;
+    finishSession(false);
+    startDraft(next);
+    setActiveWorkout(next);
+    serviceRef.current?.setWorkout(next);
+    addLog(`Up next: ${getWorkout(next).name}`, 'system');
+  };
+
+  const reportReps = () => {
+    const progress = programRunnerRef.current?.state;
+    const target = currentBlock?.targetReps;
+    const reps = draftRef.current?.reps ?? [];
+    const count = progress ? progress.repsDone : reps.length > 0 ? reps[reps.length - 1].count : 0;
+    const answer = `${count}${progress && target ? ` of ${target}` : ''} rep${count === 1 ? '' : 's'} so far.`;
+    cueArbiter.push({ text: answer, source: 'system' });
+    addLog(answer, 'system');
+    cueVoiceRef.current.speak(answer);
+  };
+
+  const runVoiceCommand = (command: VoiceCommand) => {
+    switch (command) {
+      case 'start':
+        if (!isSessionActive) toggleSession();
+        else if (pausedRef.current) pauseSession(false);
+        break;
+      case 'pause':
+        if (isSessionActive && !pausedRef.current) pauseSession(true);
+        break;
+      case 'next':
+        if (isSessionActive) nextExercise();
+        break;
+      case 'reps':
+        reportReps();
+        break;
+    }
+  };
+
+  // Commands are handled here whichever coach is on. Anything else is a question:
+  // a coach that listens already heard it, others get it as text.
+  speechHandlerRef.current = (text: string) => {
+    const command = parseVoiceCommand(text);
+    const listening = isConnected && COACH_PROVIDERS[coachProvider].listens;
+    if (!listening) addLog(text, 'user');
+    if (command) runVoiceCommand(command);
+    else if (!listening) serviceRef.current?.sendContext(text);
+  };
+
+  useEffect(() => {
+    if (!micOn) return;
+    const mic = new Microphone({
+      onAudio: (chunk) => serviceRef.current?.sendAudio(chunk),
+      onSpeech: (text) => speechHandlerRef.current(text),
+      onError: setError
+    });
+    mic.start().catch((e) => {
+      console.error("Microphone unavailable", e);
+      setError("Couldn't open the microphone. Check the browser's permission for this site.");
+      setMicOn(false);
+    });
+    return () => mic.stop();
+  }, [micOn]);
+
   return (
     <div className="h-[100dvh] bg-slate-950 text-slate-200 flex flex-col md:flex-row overflow-hidden">
         {/* Sidebar Controls */}
@@ -114,7 +648,7 @@ export default function App() {
                     <Activity className="text-emerald-500" />
                     <h1 className="text-xl font-bold text-white tracking-tight">FormFit AI</h1>
                 </div>
-                <p className="text-xs text-slate-500">Video Analysis Only • No Mic Required</p>
+                <p className="text-xs text-slate-500">{micOn ? 'Video Analysis • Listening' : 'Video Analysis • Mic Optional'}</p>
             </div>
 
             {/* Action Button (Moved to Top) */}
@@ -125,16 +659,31 @@ export default function App() {
                         {error}
                     </div>
                 )}
+                {isReconnecting && (
+                    <div className="mb-4 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg flex items-center gap-2 text-amber-400 text-xs">
+                        <RefreshCw size={14} className="animate-spin" />
+                        Reconnecting to {COACH_PROVIDERS[coachProvider].label}… on-device coaching continues
+                    </div>
+                )}
+                {isPaused && (
+                    <button
+                        onClick={() => pauseSession(false)}
+                        className="mb-4 w-full p-3 bg-sky-500/10 border border-sky-500/20 rounded-lg flex items-center gap-2 text-sky-300 text-xs hover:bg-sky-500/20"
+                    >
+                        <Pause size={14} />
+                        Paused: reps aren't counted. Say "resume" or tap here.
+                    </button>
+                )}
                 <button
                     onClick={toggleSession}
                     className={`
                         w-full py-4 rounded-xl font-bold flex items-center justify-center gap-3 transition-all duration-300 transform active:scale-95
-                        ${isConnected 
+                        ${isSessionActive 
                             ? 'bg-red-500 hover:bg-red-600 text-white shadow-lg shadow-red-500/20' 
                             : 'bg-emerald-500 hover:bg-emerald-600 text-white shadow-lg shadow-emerald-500/20'}
                     `}
                 >
-                    {isConnected ? (
+                    {isSessionActive ? (
                         <>
                             <Square size={20} fill="currentColor" />
                             STOP SESSION
@@ -150,32 +699,339 @@ export default function App() {
 
             {/* Scrollable Content */}
             <div className="p-6 space-y-6 flex-1 overflow-y-auto">
-                {/* Workout Selector */}
+                {/* Video Source */}
                 <div className="space-y-3">
-                    <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Select Workout</label>
-                    <div className="grid grid-cols-1 gap-2">
-                        {Object.values(WORKOUTS).map((workout) => (
+                    <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Video Source</label>
+                    <input
+                        ref={videoInputRef}
+                        type="file"
+                        accept="video/mp4,video/webm"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) setVideoFile(file);
+                            e.target.value = '';
+                        }}
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => setVideoFile(null)}
+                            disabled={isSessionActive}
+                            className={`
+                                py-2 rounded-lg text-xs font-medium transition-all duration-200 border flex items-center justify-center gap-2
+                                ${!videoFile
+                                    ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-100'
+                                    : 'bg-slate-800/50 border-transparent text-slate-400 hover:bg-slate-800 hover:text-slate-200'}
+                                ${isSessionActive ? 'opacity-50 cursor-not-allowed' : ''}
+                            `}
+                        >
+                            <Camera size={14} /> Webcam
+                        </button>
+                        <button
+                            onClick={() => videoInputRef.current?.click()}
+                            disabled={isSessionActive}
+                            className={`
+                                py-2 rounded-lg text-xs font-medium transition-all duration-200 border flex items-center justify-center gap-2
+                                ${videoFile
+                                    ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-100'
+                                    : 'bg-slate-800/50 border-transparent text-slate-400 hover:bg-slate-800 hover:text-slate-200'}
+                                ${isSessionActive ? 'opacity-50 cursor-not-allowed' : ''}
+                            `}
+                        >
+                            <Film size={14} /> Video File
+                        </button>
+                    </div>
+                    {videoFile && (
+                        <div className="space-y-2 text-xs text-slate-400">
+                            <div className="truncate font-mono">{videoFile.name}</div>
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={streamToCoach}
+                                    onChange={(e) => setStreamToCoach(e.target.checked)}
+                                    disabled={isSessionActive}
+                                    className="accent-emerald-500"
+                                />
+                                Stream to {COACH_PROVIDERS[coachProvider].label}
+                            </label>
+                        </div>
+                    )}
+                </div>
+
+                {/* Coach */}
+                <div className="space-y-3">
+                    <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Coach</label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(Object.keys(COACH_PROVIDERS) as CoachProviderId[]).map(provider => (
                             <button
-                                key={workout.id}
-                                onClick={() => !isConnected && setActiveWorkout(workout.id)}
-                                disabled={isConnected}
+                                key={provider}
+                                onClick={() => setCoachProvider(provider)}
+                                disabled={isSessionActive}
+                                title={COACH_PROVIDERS[provider].detail}
                                 className={`
-                                    px-4 py-3 rounded-xl text-left transition-all duration-200 border
-                                    ${activeWorkout === workout.id 
-                                        ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-100 shadow-[0_0_15px_rgba(16,185,129,0.2)]' 
+                                    py-2 rounded-lg text-xs font-medium transition-all duration-200 border
+                                    ${coachProvider === provider
+                                        ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-100'
                                         : 'bg-slate-800/50 border-transparent text-slate-400 hover:bg-slate-800 hover:text-slate-200'}
-                                    ${isConnected ? 'opacity-50 cursor-not-allowed' : ''}
+                                    ${isSessionActive ? 'opacity-50 cursor-not-allowed' : ''}
                                 `}
                             >
-                                <div className="font-medium flex items-center justify-between">
-                                    {workout.name}
-                                    {activeWorkout === workout.id && <Dumbbell size={16} />}
-                                </div>
+                                {COACH_PROVIDERS[provider].label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-slate-500">{COACH_PROVIDERS[coachProvider].detail}</p>
+                    {frameStats && (
+                        <p className="text-[10px] font-mono text-slate-500">Sent {frameStats.frames} frames • {formatBytes(frameStats.bytes)}</p>
+                    )}
+                    <button
+                        onClick={() => setMicOn(on => !on)}
+                        title={Microphone.canRecognize ? undefined : "This browser can't recognize speech, so voice commands won't work"}
+                        className={`
+                            w-full py-2 rounded-lg text-xs font-medium transition-all duration-200 border flex items-center justify-center gap-2
+                            ${micOn
+                                ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-100'
+                                : 'bg-slate-800/50 border-transparent text-slate-400 hover:bg-slate-800 hover:text-slate-200'}
+                        `}
+                    >
+                        {micOn ? <Mic size={14} /> : <MicOff size={14} />}
+                        {micOn ? 'Microphone On' : 'Use Microphone'}
+                    </button>
+                    <button
+                        onClick={() => setSpeakCues(on => !on)}
+                        disabled={!CueVoice.supported}
+                        title={CueVoice.supported ? undefined : "This browser can't speak cues"}
+                        className={`
+                            w-full py-2 rounded-lg text-xs font-medium transition-all duration-200 border flex items-center justify-center gap-2
+                            ${speakCues
+                                ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-100'
+                                : 'bg-slate-800/50 border-transparent text-slate-400 hover:bg-slate-800 hover:text-slate-200'}
+                            ${!CueVoice.supported ? 'opacity-50 cursor-not-allowed' : ''}
+                        `}
+                    >
+                        {speakCues ? <Volume2 size={14} /> : <VolumeX size={14} />}
+                        {speakCues ? 'Speaking Cues' : 'Speak Cues'}
+                    </button>
+                    {micOn && (
+                        <p className="text-[10px] text-slate-500">
+                            Say "start", "pause", "next exercise" or "how many reps"
+                            {COACH_PROVIDERS[coachProvider].listens ? `, or ask ${COACH_PROVIDERS[coachProvider].label} a question.` : '.'}
+                        </p>
+                    )}
+                </div>
+
+                {/* Tracking Model */}
+                <div className="space-y-3">
+                    <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Tracking Model</label>
+                    <div className="grid grid-cols-3 gap-2">
+                        {(Object.keys(POSE_MODELS) as PoseModel[]).map(model => (
+                            <button
+                                key={model}
+                                onClick={() => setPoseModel(model)}
+                                disabled={isSessionActive}
+                                title={POSE_MODELS[model].detail}
+                                className={`
+                                    py-2 rounded-lg text-xs font-medium transition-all duration-200 border
+                                    ${poseModel === model
+                                        ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-100'
+                                        : 'bg-slate-800/50 border-transparent text-slate-400 hover:bg-slate-800 hover:text-slate-200'}
+                                    ${isSessionActive ? 'opacity-50 cursor-not-allowed' : ''}
+                                `}
+                            >
+                                {POSE_MODELS[model].label}
                             </button>
                         ))}
                     </div>
+                    <p className="text-[10px] text-slate-500">{POSE_MODELS[poseModel].detail}</p>
+                </div>
+
+                {/* Body Calibration */}
+                <div className="space-y-3">
+                    <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Body Calibration</label>
+                    <CalibrationPanel
+                        user={user}
+                        calibration={calibration}
+                        isCalibrating={isCalibrating}
+                        disabled={isSessionActive || !!replayRecording}
+                        onUserChange={changeUser}
+                        onStart={() => setIsCalibrating(true)}
+                        onCancel={() => setIsCalibrating(false)}
+                        onClear={clearCalibration}
+                    />
+                </div>
+
+                {/* Partner Mode */}
+                <div className="space-y-2">
+                    <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Training Partner</label>
+                    <label className="flex items-center gap-2 text-xs text-slate-400">
+                        <input
+                            type="checkbox"
+                            checked={partnerMode}
+                            onChange={(e) => setPartnerMode(e.target.checked)}
+                            className="accent-emerald-500"
+                        />
+                        Partner Mode: count and cue a second person too
+                    </label>
+                    <p className="text-[10px] text-slate-500">Pick who is coached with the P1/P2 tags on the camera.</p>
+                </div>
+
+                {/* Programs */}
+                <div className="space-y-3">
+                    <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Program</label>
+                    <ProgramPanel
+                        programs={programs}
+                        selectedId={selectedProgramId}
+                        onSelect={setSelectedProgramId}
+                        onSave={saveProgram}
+                        onDelete={deleteProgram}
+                        disabled={isSessionActive}
+                        progress={programProgress}
+                    />
+                </div>
+
+                {/* Workout Selector */}
+                <div className="space-y-3">
+                    <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Select Workout</label>
+                    <div className="grid grid-cols-1 gap-2">
+                        {exercises.map((workout) => (
+                            <div key={workout.id} className="flex items-center gap-2">
+                                <button
+                                    onClick={() => !isSessionActive && setActiveWorkout(workout.id)}
+                                    disabled={isSessionActive}
+                                    className={`
+                                        flex-1 px-4 py-3 rounded-xl text-left transition-all duration-200 border
+                                        ${activeWorkout === workout.id 
+                                            ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-100 shadow-[0_0_15px_rgba(16,185,129,0.2)]' 
+                                            : 'bg-slate-800/50 border-transparent text-slate-400 hover:bg-slate-800 hover:text-slate-200'}
+                                        ${isSessionActive ? 'opacity-50 cursor-not-allowed' : ''}
+                                    `}
+                                >
+                                    <div className="font-medium flex items-center justify-between">
+                                        <span>
+                                            {workout.name}
+                                            {workout.custom && <span className="ml-2 text-[10px] font-mono uppercase text-slate-500">custom</span>}
+                                        </span>
+                                        {activeWorkout === workout.id && <Dumbbell size={16} />}
+                                    </div>
+                                </button>
+                                {workout.custom && !isSessionActive && (
+                                    <button onClick={() => removeExercise(workout.id)} className="text-red-400/80 hover:text-red-400">
+                                        <Trash2 size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    <input
+                        ref={exerciseInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) importExercises(file);
+                            e.target.value = '';
+                        }}
+                    />
+                    <button
+                        onClick={() => exerciseInputRef.current?.click()}
+                        disabled={isSessionActive}
+                        className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300 disabled:opacity-40"
+                    >
+                        <FileJson size={12} /> Load Custom Exercise
+                    </button>
                 </div>
 
+                {/* Hold Target */}
+                {holdDef && (
+                    <div className="space-y-3">
+                        <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Target Hold</label>
+                        <div className="grid grid-cols-5 gap-2">
+                            {[30, 45, 60, 90, 120].map(seconds => (
+                                <button
+                                    key={seconds}
+                                    onClick={() => setHoldTargetOverride(seconds)}
+                                    disabled={isSessionActive}
+                                    className={`
+                                        py-2 rounded-lg text-xs font-mono transition-all duration-200 border
+                                        ${holdTargetSeconds === seconds
+                                            ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-100'
+                                            : 'bg-slate-800/50 border-transparent text-slate-400 hover:bg-slate-800 hover:text-slate-200'}
+                                        ${isSessionActive ? 'opacity-50 cursor-not-allowed' : ''}
+                                    `}
+                                >
+                                    {seconds}s
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Hold Breakdown */}
+                {holdStats && holdStats.validMs > 0 && (
+                    <div className="space-y-2">
+                        <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">This Session</label>
+                        <div className="px-4 py-2 rounded-xl bg-slate-800/50 font-mono text-xs text-slate-400 space-y-1">
+                            <div className="flex justify-between"><span>Valid hold</span><span className="text-slate-200">{(holdStats.validMs / 1000).toFixed(0)}s</span></div>
+                            <div className="flex justify-between"><span>Longest clean</span><span className="text-slate-200">{(holdStats.longestCleanMs / 1000).toFixed(0)}s</span></div>
+                            <div className="flex justify-between"><span>Breaks</span><span className="text-slate-200">{holdStats.breaks}</span></div>
+                        </div>
+                    </div>
+                )}
+
+                {/* Imbalance Threshold */}
+                {workoutDef.repPattern?.symmetry && (
+                    <div className="space-y-3">
+                        <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Flag Left/Right Imbalance Over</label>
+                        <div className="grid grid-cols-4 gap-2">
+                            {[10, 15, 20, 25].map(pct => (
+                                <button
+                                    key={pct}
+                                    onClick={() => setImbalanceThreshold(pct)}
+                                    className={`
+                                        py-2 rounded-lg text-xs font-mono transition-all duration-200 border
+                                        ${imbalanceThreshold === pct
+                                            ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-100'
+                                            : 'bg-slate-800/50 border-transparent text-slate-400 hover:bg-slate-800 hover:text-slate-200'}
+                                    `}
+                                >
+                                    {pct}%
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Set Breakdown */}
+                {sets.length > 0 && (
+                    <div className="space-y-2">
+                        <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">This Session</label>
+                        {sets.map(set => (
+                            <div key={set.index} className="flex items-center justify-between px-4 py-2 rounded-xl bg-slate-800/50 text-sm">
+                                <span className="text-slate-300">Set {set.index}</span>
+                                <span className="font-mono text-xs text-slate-400">
+                                    {set.reps} reps • TUT {(set.timeUnderTensionMs / 1000).toFixed(0)}s
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Left / Right Breakdown */}
+                {symmetry && (
+                    <div className="space-y-2">
+                        <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Left vs Right</label>
+                        <div className="px-4 py-2 rounded-xl bg-slate-800/50 font-mono text-xs text-slate-400 space-y-1">
+                            <div className="flex justify-between"><span>Reps</span><span className="text-slate-200">{symmetry.left.reps} / {symmetry.right.reps}</span></div>
+                            <div className="flex justify-between"><span>Avg range</span><span className="text-slate-200">{symmetry.left.avgRangeOfMotion}° / {symmetry.right.avgRangeOfMotion}°</span></div>
+                            <div className="flex justify-between"><span>Avg lowering</span><span className="text-slate-200">{(symmetry.left.avgEccentricMs / 1000).toFixed(1)}s / {(symmetry.right.avgEccentricMs / 1000).toFixed(1)}s</span></div>
+                            {symmetry.imbalances.map(text => (
+                                <div key={text} className="text-amber-400">{text}</div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {/* Info Card */}
                 <div className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
                     <div className="flex items-center gap-2 text-indigo-400 mb-2">
@@ -183,10 +1039,10 @@ export default function App() {
                         <span className="text-sm font-semibold">Correct Form</span>
                     </div>
                     <p className="text-sm text-slate-400 leading-relaxed">
-                        {WORKOUTS[activeWorkout].description}
+                        {workoutDef.description}
                     </p>
                     <ul className="mt-3 space-y-1">
-                        {WORKOUTS[activeWorkout].tips.map((tip, i) => (
+                        {workoutDef.tips.map((tip, i) => (
                             <li key={i} className="text-xs text-slate-500 flex items-center gap-2">
                                 <span className="w-1 h-1 bg-indigo-500 rounded-full" />
                                 {tip}
@@ -194,15 +1050,69 @@ export default function App() {
                         ))}
                     </ul>
                 </div>
+
+                {/* History */}
+                <div className="space-y-3">
+                    <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">History</label>
+                    <HistoryPanel sessions={history} onDelete={deleteSession} onView={setSummarySession} onImport={importSession} />
+                </div>
+
+                {/* Developer Tools */}
+                <div className="space-y-3">
+                    <label className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Developer</label>
+                    <input
+                        ref={recordingInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) loadRecording(file);
+                            e.target.value = '';
+                        }}
+                    />
+                    <div className="flex flex-wrap gap-4 text-xs">
+                        <button
+                            onClick={() => setIsRecordingPose(prev => !prev)}
+                            disabled={!!replayRecording}
+                            className={`flex items-center gap-1 disabled:opacity-40 ${isRecordingPose ? 'text-red-400' : 'text-slate-500 hover:text-slate-300'}`}
+                        >
+                            <Circle size={12} className={isRecordingPose ? 'fill-red-500 animate-pulse' : ''} />
+                            {isRecordingPose ? 'Stop Recording' : 'Record Pose'}
+                        </button>
+                        {replayRecording ? (
+                            <button
+                                onClick={() => setReplayRecording(null)}
+                                className="flex items-center gap-1 text-cyan-400 hover:text-cyan-300"
+                            >
+                                <Square size={12} /> Stop Replay
+                            </button>
+                        ) : (
+                            <button
+                                onClick={() => recordingInputRef.current?.click()}
+                                disabled={isSessionActive || isRecordingPose}
+                                className="flex items-center gap-1 text-slate-500 hover:text-slate-300 disabled:opacity-40"
+                            >
+                                <Upload size={12} /> Load Recording
+                            </button>
+                        )}
+                    </div>
+                </div>
             </div>
         </aside>
 
         {/* Main Content */}
         <main className="flex-1 flex flex-col relative overflow-hidden">
+             {summarySession && (
+                 <SessionSummary session={summarySession} imbalanceThresholdPct={imbalanceThreshold} onClose={() => setSummarySession(null)} />
+             )}
+
              {/* Header Overlay for mobile */}
              <div className="absolute top-0 left-0 right-0 p-4 md:hidden z-10 flex justify-between items-center bg-gradient-to-b from-black/80 to-transparent pointer-events-none">
                  <h1 className="font-bold text-white drop-shadow-md">FormFit AI</h1>
-                 <div className="text-xs bg-slate-800/80 backdrop-blur px-2 py-1 rounded text-slate-300 border border-white/10">{WORKOUTS[activeWorkout].name}</div>
+                 <div className="text-xs bg-slate-800/80 backdrop-blur px-2 py-1 rounded text-slate-300 border border-white/10">
+                     {workoutDef.name}{isSessionActive && ` • ${repEvents.length} reps`}
+                 </div>
              </div>
 
             {/* Increased top padding (pt-14 md:pt-10) to give space for video/demo display at the top */}
@@ -223,12 +1133,65 @@ export default function App() {
                     <div className="relative bg-black rounded-3xl overflow-hidden shadow-2xl border border-slate-700">
                         <CameraView 
                             workoutType={activeWorkout} 
-                            isActive={isConnected}
+                            isActive={isSessionActive}
+                            isPaused={isPaused}
                             onVideoReady={handleVideoReady}
-                            feedback={latestFeedback}
+                            cue={hudCue}
+                            onRep={handleRep}
+                            onTelemetry={handleTelemetry}
+                            onMotion={handleMotion}
+                            holdTargetSeconds={holdTargetSeconds}
+                            imbalanceThresholdPct={imbalanceThreshold}
+                            onHoldUpdate={handleHoldUpdate}
+                            onCueUpdate={handleCueUpdate}
+                            onCue={handleCue}
+                            onTrackingStats={handleTrackingStats}
+                            isRecording={isRecordingPose}
+                            onRecordingComplete={handleRecordingComplete}
+                            replay={replayRecording}
+                            onReplayEnd={() => setReplayRecording(null)}
+                            videoFile={videoFile}
+                            onVideoEnded={() => isSessionActive && stopSession()}
+                            resetKey={setKey}
+                            calibration={calibration}
+                            isCalibrating={isCalibrating}
+                            onCalibrated={handleCalibrated}
+                            partnerMode={partnerMode}
+                            poseModel={poseModel}
                         />
+                        {/* Program Rest Countdown */}
+                        {programProgress?.phase === 'REST' && currentBlock && programProgress.restEndsAt !== null && (
+                            <div className="absolute inset-0 z-20 bg-slate-950/70 backdrop-blur-sm flex flex-col items-center justify-center gap-3 text-center">
+                                <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-emerald-400">
+                                    <Timer size={14} /> Rest
+                                </div>
+                                <div className="text-6xl font-bold font-mono text-white">
+                                    {Math.max(0, Math.ceil((programProgress.restEndsAt - now) / 1000))}
+                                </div>
+                                <div className="text-sm text-slate-300">
+                                    Up next: {getWorkout(currentBlock.workout).name} • Set {programProgress.set}/{currentBlock.sets}
+                                </div>
+                                <button
+                                    onClick={() => programRunnerRef.current?.skip(Date.now())}
+                                    className="flex items-center gap-1 text-xs text-slate-400 hover:text-white"
+                                >
+                                    <SkipForward size={12} /> Skip Rest
+                                </button>
+                            </div>
+                        )}
+                        {/* Program Set Progress */}
+                        {programProgress?.phase === 'WORK' && currentBlock && (
+                            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-black/60 backdrop-blur-md px-3 py-1.5 rounded-full border border-emerald-500/30 text-[10px] font-mono text-emerald-300 flex items-center gap-2 whitespace-nowrap">
+                                Block {programProgress.blockIndex + 1}/{selectedProgram!.blocks.length} • Set {programProgress.set}/{currentBlock.sets}
+                                {currentBlock.targetReps && ` • ${programProgress.repsDone}/${currentBlock.targetReps} reps`}
+                                {currentBlock.targetSeconds && ` • ${currentBlock.targetSeconds}s hold`}
+                                <button onClick={() => programRunnerRef.current?.skip(Date.now())} className="text-slate-400 hover:text-white">
+                                    <SkipForward size={12} />
+                                </button>
+                            </div>
+                        )}
                          {/* Live Indicator Overlay - Moved down to top-20 to avoid overlap with Radial Gauge */}
-                        {isConnected && (
+                        {isSessionActive && (
                             <div className="absolute top-20 right-4 bg-black/60 backdrop-blur-md px-4 py-2 rounded-lg border border-white/10 flex items-center gap-3 z-10 transition-all duration-300">
                                 <div className="flex space-x-1 items-end h-4">
                                     <div className="w-1 h-2 bg-emerald-500 animate-[bounce_1s_infinite]" />
@@ -0,0 +1,53 @@
+import React from 'react';
+import { BodyCalibration } from '../types';
+import { DEFAULT_USER } from '../services/calibrationStore';
+import { Ruler, Trash2, X } from 'lucide-react';
+
+interface CalibrationPanelProps {
+  user: string;
+  calibration: BodyCalibration | null;
+  isCalibrating: boolean;
+  // Locked while a session runs
+  disabled: boolean;
+  onUserChange: (user: string) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onClear: () => void;
+}
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ user, calibration, isCalibrating, disabled, onUserChange, onStart, onCancel, onClear }) => (
+  <div className="space-y-2">
+    <input
+      value={user}
+      onChange={(e) => onUserChange(e.target.value)}
+      disabled={disabled || isCalibrating}
+      placeholder={`Your name (${DEFAULT_USER})`}
+      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 disabled:opacity-50"
+    />
+    {calibration ? (
+      <div className="px-4 py-2 rounded-xl bg-slate-800/50 font-mono text-xs text-slate-400 space-y-1">
+        <div className="flex justify-between"><span>Calibrated</span><span className="text-slate-200">{new Date(calibration.capturedAt).toLocaleDateString()}</span></div>
+        <div className="flex justify-between"><span>Arm / leg</span><span className="text-slate-200">{(calibration.segments.upperArm + calibration.segments.forearm).toFixed(2)} / {(calibration.segments.thigh + calibration.segments.calf).toFixed(2)} torso</span></div>
+        <div className="flex justify-between"><span>Straight elbow / knee</span><span className="text-slate-200">{calibration.baselineAngles.elbow}° / {calibration.baselineAngles.knee}°</span></div>
+      </div>
+    ) : (
+      <div className="text-xs text-slate-500">Not calibrated. Thresholds use a per-frame body size estimate.</div>
+    )}
+    <div className="flex items-center gap-4 text-xs">
+      {isCalibrating ? (
+        <button onClick={onCancel} className="flex items-center gap-1 text-slate-500 hover:text-slate-300">
+          <X size={12} /> Cancel Calibration
+        </button>
+      ) : (
+        <button onClick={onStart} disabled={disabled} className="flex items-center gap-1 text-emerald-400/80 hover:text-emerald-400 disabled:opacity-40">
+          <Ruler size={12} /> {calibration ? 'Recalibrate' : 'Calibrate'}
+        </button>
+      )}
+      {calibration && !isCalibrating && !disabled && (
+        <button onClick={onClear} className="flex items-center gap-1 text-red-400/80 hover:text-red-400">
+          <Trash2 size={12} /> Clear
+        </button>
+      )}
+    </div>
+  </div>
+);
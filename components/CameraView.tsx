@@ -1,26 +1,97 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { WorkoutType } from '../types';
-import { Camera, RefreshCw, MessageSquare, ScanFace, Activity } from 'lucide-react';
-import { PoseLandmarker, FilesetResolver, NormalizedLandmark, DrawingUtils } from '@mediapipe/tasks-vision';
+import { ExerciseId, RepEvent, RepPhase, RepTempo, HoldStats, TrackingQuality, TrackingStats, PoseRecording, Side, BodyOrientation, BodyProportions, PoseTelemetry, MotionHint, HudCue, CueSource } from '../types';
+import { getWorkout } from '../services/exerciseRegistry';
+import { formatTempo } from '../services/tempoTracker';
+import { percentDiff } from '../services/symmetryTracker';
+import { VIEW_LABELS } from '../services/orientationTracker';
+import { CalibrationProgress } from '../services/bodyCalibrator';
+import { PoseAnalyzer } from '../services/poseAnalyzer';
+import { PoseRecorder } from '../services/poseRecorder';
+import { ReplayCursor } from '../services/poseReplay';
+import { PersonTracker, TrackedPerson } from '../services/personTracker';
+import { TELEMETRY_INTERVAL_MS } from '../utils/telemetry';
+import { playVideo } from '../utils/mediaUtils';
+import { createPoseLandmarker, DEFAULT_POSE_MODEL, POSE_MODELS, PoseDelegate, PoseModel } from '../services/poseDetector';
+import { Camera, RefreshCw, MessageSquare, ScanFace, Activity, Play, Pause, Users, TriangleAlert, Dumbbell, Info } from 'lucide-react';
+import { PoseLandmarker, NormalizedLandmark } from '@mediapipe/tasks-vision';
 
 interface CameraViewProps {
-  workoutType: WorkoutType;
+  workoutType: ExerciseId;
   isActive: boolean;
+  // Paused by the user: counters and timers freeze, like a paused video file
+  isPaused?: boolean;
   onVideoReady: (video: HTMLVideoElement) => void;
-  feedback: string | null;
+  // Picked by the cue arbiter; on-device cues reach it through onCueUpdate
+  cue: HudCue | null;
+  onRep?: (event: RepEvent) => void;
+  holdTargetSeconds?: number;
+  // Left/right difference (percent) that counts as an imbalance
+  imbalanceThresholdPct?: number;
+  onHoldUpdate?: (stats: HoldStats) => void;
+  // The current on-device cue, or null when form looks fine, every analysis tick
+  onCueUpdate?: (cue: string | null) => void;
+  // Each new on-device cue, once
+  onCue?: (cue: string) => void;
+  onTrackingStats?: (stats: TrackingStats) => void;
+  isRecording?: boolean;
+  onRecordingComplete?: (recording: PoseRecording) => void;
+  replay?: PoseRecording | null;
+  onReplayEnd?: () => void;
+  // Analyze an uploaded recording instead of the webcam
+  videoFile?: File | null;
+  onVideoEnded?: () => void;
+  // Changing this zeroes the counters, e.g. at the start of each program set
+  resetKey?: number;
+  // The user's body proportions, used to normalize rule and rep thresholds
+  calibration?: BodyProportions | null;
+  // Captures new proportions from a T-pose while true
+  isCalibrating?: boolean;
+  onCalibrated?: (proportions: BodyProportions) => void;
+  // Count and cue a second person alongside the coached one. Only the coached
+  // person's reps, holds and cues are reported to the session.
+  partnerMode?: boolean;
+  // Pose model size; tracking restarts when it changes
+  poseModel?: PoseModel;
+  // Measured pose for the coach, every TELEMETRY_INTERVAL_MS while analyzing
+  onTelemetry?: (sample: PoseTelemetry) => void;
+  // Every frame while analyzing, to pace and crop the frames sent to the coach
+  onMotion?: (motion: MotionHint) => void;
 }
 
-// Linear Interpolation for single values
-const lerp = (start: number, end: number, factor: number) => start + (end - start) * factor;
-
-// Utility to calculate 2D angle between three points
-const calculateAngle = (a: NormalizedLandmark, b: NormalizedLandmark, c: NormalizedLandmark): number => {
-    const radians = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
-    let angle = Math.abs(radians * 180.0 / Math.PI);
-    if (angle > 180.0) angle = 360.0 - angle;
-    return angle;
+// HUD colors and icon for each cue source
+const CUE_STYLES: Record<CueSource, { box: string; badge: string; text: string; Icon: typeof Activity }> = {
+  safety: { box: 'bg-red-950/85 border-red-500/50', badge: 'bg-red-500/20 text-red-400', text: 'text-red-400', Icon: TriangleAlert },
+  coach: { box: 'bg-black/70 border-cyan-500/30', badge: 'bg-cyan-500/20 text-cyan-400', text: 'text-cyan-400', Icon: MessageSquare },
+  heuristic: { box: 'bg-indigo-900/80 border-indigo-500/30', badge: 'bg-indigo-500/20 text-indigo-400', text: 'text-indigo-400', Icon: Activity },
+  rep: { box: 'bg-emerald-950/80 border-emerald-500/30', badge: 'bg-emerald-500/20 text-emerald-400', text: 'text-emerald-400', Icon: Dumbbell },
+  system: { box: 'bg-slate-900/80 border-slate-500/30', badge: 'bg-slate-500/20 text-slate-300', text: 'text-slate-300', Icon: Info }
 };
 
+// People the detector looks for in each frame
+const MAX_POSES = 4;
+
+// Overlay colors as "r, g, b": the coached person in emerald with orange
+// target muscles, the partner in sky with violet
+interface PersonColors {
+  base: string;
+  target: string;
+  joint: string;
+}
+
+const PERSON_COLORS: PersonColors[] = [
+  { base: '52, 211, 153', target: '251, 146, 60', joint: '16, 185, 129' },
+  { base: '56, 189, 248', target: '192, 132, 252', joint: '14, 165, 233' }
+];
+
+interface PartnerState {
+  repCount: number;
+  phase: RepPhase | null;
+  cue: string | null;
+  hold: HoldStats | null;
+}
+
+const EMPTY_PARTNER: PartnerState = { repCount: 0, phase: null, cue: null, hold: null };
+
 // --- ANATOMICAL VECTOR SHAPES ---
 const ANATOMY_PATHS = {
     // Deltoid (Shoulder Cap)
@@ -67,21 +138,33 @@ const ANATOMY_PATHS = {
     }
 };
 
-// Map Workouts to Active Body Segments for Highlighting
-const TARGET_SEGMENTS: Record<WorkoutType, string[]> = {
-    [WorkoutType.SQUAT]: ['thigh', 'calf', 'torso'],
-    [WorkoutType.PUSHUP]: ['upperArm', 'torso'],
-    [WorkoutType.LUNGE]: ['thigh', 'calf'],
-    [WorkoutType.BICEP_CURL]: ['upperArm'],
-    [WorkoutType.TRICEP_EXTENSION]: ['upperArm'],
-    [WorkoutType.PLANK]: ['torso', 'upperArm', 'thigh']
-};
-
 export const CameraView: React.FC<CameraViewProps> = ({ 
     workoutType, 
     isActive, 
+    isPaused = false,
     onVideoReady, 
-    feedback
+    cue,
+    onRep,
+    holdTargetSeconds,
+    imbalanceThresholdPct,
+    onHoldUpdate,
+    onCueUpdate,
+    onCue,
+    onTrackingStats,
+    isRecording,
+    onRecordingComplete,
+    replay,
+    onReplayEnd,
+    videoFile,
+    onVideoEnded,
+    resetKey,
+    calibration,
+    isCalibrating,
+    onCalibrated,
+    partnerMode,
+    poseModel,
+    onTelemetry,
+    onMotion
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -92,32 +175,199 @@ export const CameraView: React.FC<CameraViewProps> = ({
   const [error, setError] = useState<string>('');
   const [hasPermission, setHasPermission] = useState(false);
   const [isTracking, setIsTracking] = useState(false);
+  // Which delegate the pose model ended up on; CPU when the GPU failed to start
+  const [delegate, setDelegate] = useState<PoseDelegate | null>(null);
+  const [modelError, setModelError] = useState('');
   
   // Tracking Quality State
-  const [trackingQuality, setTrackingQuality] = useState<'GOOD' | 'POOR' | 'LOST'>('LOST');
+  const [trackingQuality, setTrackingQuality] = useState<TrackingQuality>('LOST');
   const [trackingScore, setTrackingScore] = useState<number>(0);
   const [trackingChangeAnim, setTrackingChangeAnim] = useState(false);
   
-  // Local Heuristic Feedback State
-  const [heuristicFeedback, setHeuristicFeedback] = useState<string | null>(null);
+  // Rep Counter State
+  const [repCount, setRepCount] = useState(0);
+  const [repPhase, setRepPhase] = useState<RepPhase | null>(null);
+  const [lastTempo, setLastTempo] = useState<RepTempo | null>(null);
+  // Per-side breakdown for patterns that track symmetry
+  const [sideReps, setSideReps] = useState<Record<Side, number>>({ left: 0, right: 0 });
+  const [lastSides, setLastSides] = useState<RepEvent['sides'] | null>(null);
+
+  // Hold Timer State (isometric exercises)
+  const [holdStats, setHoldStats] = useState<HoldStats | null>(null);
+  const [view, setView] = useState<BodyOrientation | null>(null);
+  const [calibrationProgress, setCalibrationProgress] = useState<CalibrationProgress | null>(null);
+
+  // Everyone the tracker currently remembers, and who is coached / partnered
+  const [people, setPeople] = useState<number[]>([]);
+  const [coachedId, setCoachedId] = useState<number | null>(null);
+  const [partnerId, setPartnerId] = useState<number | null>(null);
+  const [partner, setPartner] = useState<PartnerState>(EMPTY_PARTNER);
+
+  // Replaying a recording runs the analysis without a live session
+  const analyzing = isActive || !!replay;
+
+  // detectPose runs from a rAF loop, so it reads live props through refs
+  const isActiveRef = useRef(analyzing);
+  isActiveRef.current = analyzing;
+  const isPausedRef = useRef(isPaused);
+  isPausedRef.current = isPaused;
+  const callbacksRef = useRef({ onRep, onHoldUpdate, onCueUpdate, onCue, onReplayEnd, onVideoEnded, onCalibrated, onTelemetry, onMotion });
+  callbacksRef.current = { onRep, onHoldUpdate, onCueUpdate, onCue, onReplayEnd, onVideoEnded, onCalibrated, onTelemetry, onMotion };
+
+  // Smoothing, rep counting, hold timing and heuristic cues
+  const analyzerRef = useRef<PoseAnalyzer | null>(null);
+  if (!analyzerRef.current) {
+      analyzerRef.current = new PoseAnalyzer({
+          onRep: (event) => {
+              setRepCount(event.count);
+              setLastTempo(event.tempo);
+              if (event.sides) {
+                  setLastSides(event.sides);
+                  setSideReps(prev => ({
+                      left: prev.left + (event.side !== 'right' ? 1 : 0),
+                      right: prev.right + (event.side !== 'left' ? 1 : 0)
+                  }));
+              }
+              callbacksRef.current.onRep?.(event);
+          },
+          onPhaseChange: setRepPhase,
+          onCueUpdate: (cue) => callbacksRef.current.onCueUpdate?.(cue),
+          onCueFired: (cue) => callbacksRef.current.onCue?.(cue),
+          onHoldUpdate: (stats) => {
+              setHoldStats(stats);
+              callbacksRef.current.onHoldUpdate?.(stats);
+          },
+          onOrientationChange: setView,
+          onCalibrationProgress: setCalibrationProgress,
+          onCalibrated: (proportions) => callbacksRef.current.onCalibrated?.(proportions)
+      });
+  }
+
+  // The partner gets their own pipeline; its results only feed the HUD
+  const partnerAnalyzerRef = useRef<PoseAnalyzer | null>(null);
+  if (!partnerAnalyzerRef.current) {
+      partnerAnalyzerRef.current = new PoseAnalyzer({
+          onRep: (event) => setPartner(prev => ({ ...prev, repCount: event.count })),
+          onPhaseChange: (phase) => setPartner(prev => ({ ...prev, phase })),
+          onCueUpdate: (cue) => setPartner(prev => ({ ...prev, cue })),
+          onHoldUpdate: (hold) => setPartner(prev => ({ ...prev, hold }))
+      });
+  }
+
+  const trackerRef = useRef(new PersonTracker());
+  const coachedIdRef = useRef<number | null>(null);
+  const partnerIdRef = useRef<number | null>(null);
+  const partnerModeRef = useRef(!!partnerMode);
+  partnerModeRef.current = !!partnerMode;
+
+  // Keeps the coached person and partner while the tracker remembers them,
+  // otherwise falls back to the largest other person in frame
+  const assignPeople = (tracked: TrackedPerson[]) => {
+      const tracker = trackerRef.current;
+      const largest = (exclude: number | null) =>
+          tracked.filter(p => p.id !== exclude).sort((a, b) => b.bodyScale - a.bodyScale)[0]?.id ?? null;
+
+      let coached = coachedIdRef.current;
+      if (coached === null || !tracker.has(coached)) coached = largest(null);
+      let partnered = partnerModeRef.current ? partnerIdRef.current : null;
+      if (partnerModeRef.current && (partnered === null || partnered === coached || !tracker.has(partnered))) partnered = largest(coached);
+
+      if (coached !== coachedIdRef.current) {
+          coachedIdRef.current = coached;
+          setCoachedId(coached);
+          analyzerRef.current?.clearTracking();
+      }
+      if (partnered !== partnerIdRef.current) {
+          partnerIdRef.current = partnered;
+          setPartnerId(partnered);
+          partnerAnalyzerRef.current?.clearTracking();
+      }
+      const ids = tracker.ids.sort((a, b) => a - b);
+      setPeople(prev => prev.join() === ids.join() ? prev : ids);
+  };
+
+  // Coaching someone else swaps them with the partner, if they were one
+  const selectPerson = (id: number) => {
+      if (id === coachedIdRef.current) return;
+      if (id === partnerIdRef.current) {
+          partnerIdRef.current = coachedIdRef.current;
+          setPartnerId(partnerIdRef.current);
+          partnerAnalyzerRef.current?.clearTracking();
+      }
+      coachedIdRef.current = id;
+      setCoachedId(id);
+      analyzerRef.current?.clearTracking();
+  };
+
+  // Pose recording (raw detector output) and replay source
+  const recorderRef = useRef<PoseRecorder | null>(null);
+  const replayRef = useRef<ReplayCursor | null>(null);
+  const replayEndedRef = useRef(false);
+
+  // Uploaded video playback. Frames are only analyzed while it plays, and
+  // each decoded frame is analyzed once, so pausing never adds reps or time.
+  const [playback, setPlayback] = useState({ paused: true, currentTime: 0, duration: 0 });
+  const isFileRef = useRef(!!videoFile);
+  isFileRef.current = !!videoFile;
+  const lastVideoTimeRef = useRef(-1);
   
-  const trackingQualityRef = useRef<'GOOD' | 'POOR' | 'LOST'>('LOST');
+  const trackingQualityRef = useRef<TrackingQuality>('LOST');
   const lastScoreUpdateRef = useRef<number>(0);
-  const lastHeuristicUpdateRef = useRef<number>(0);
+
+  // Time spent per tracking quality during the active session
+  const trackingTimeRef = useRef<TrackingStats>({ GOOD: 0, POOR: 0, LOST: 0 });
+  const lastFrameTimeRef = useRef<number>(0);
+  const onTrackingStatsRef = useRef(onTrackingStats);
+  onTrackingStatsRef.current = onTrackingStats;
+  const lastTelemetryRef = useRef<number>(0);
   
-  // Refs for smoothing and persistence
-  const prevLandmarksRef = useRef<NormalizedLandmark[] | null>(null);
-  const lastValidLandmarksRef = useRef<NormalizedLandmark[] | null>(null);
-  const lastLandmarksTimeRef = useRef<number>(0);
+  // Refs for mask persistence
   const lastMaskTimeRef = useRef<number>(0);
-  
-  const stabilityScoreRef = useRef<number>(0);
 
   const poseLandmarkerRef = useRef<PoseLandmarker | null>(null);
   const requestRef = useRef<number>();
 
-  // Initialize Camera
+  // Initialize Camera (or the uploaded video file)
   useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (videoFile) {
+      const url = URL.createObjectURL(videoFile);
+      const syncPlayback = () => setPlayback({ paused: video.paused, currentTime: video.currentTime, duration: video.duration || 0 });
+      const handleSeeking = () => analyzerRef.current?.clearTracking();
+      const handleEnded = () => callbacksRef.current.onVideoEnded?.();
+      const events = ['play', 'pause', 'timeupdate', 'durationchange'];
+
+      setError('');
+      setHasPermission(false);
+      lastVideoTimeRef.current = -1;
+      trackerRef.current.reset();
+      video.srcObject = null;
+      video.src = url;
+      video.onloadedmetadata = () => {
+          syncPlayback();
+          setHasPermission(true);
+          onVideoReady(video);
+      };
+      video.onerror = () => setError("Could not play this video file. Try an MP4 or WebM.");
+      events.forEach(e => video.addEventListener(e, syncPlayback));
+      video.addEventListener('seeking', handleSeeking);
+      video.addEventListener('ended', handleEnded);
+
+      return () => {
+          events.forEach(e => video.removeEventListener(e, syncPlayback));
+          video.removeEventListener('seeking', handleSeeking);
+          video.removeEventListener('ended', handleEnded);
+          video.onerror = null;
+          video.pause();
+          video.removeAttribute('src');
+          video.load();
+          URL.revokeObjectURL(url);
+      };
+    }
+
+    let stopped = false;
     const startCamera = async () => {
       try {
         const stream = await navigator.mediaDevices.getUserMedia({ 
@@ -128,11 +378,15 @@ export const CameraView: React.FC<CameraViewProps> = ({
             }, 
             audio: false 
         });
+        if (stopped) {
+          stream.getTracks().forEach(t => t.stop());
+          return;
+        }
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
           videoRef.current.onloadedmetadata = () => {
               if(videoRef.current) {
-                videoRef.current.play();
+                playVideo(videoRef.current);
                 onVideoReady(videoRef.current);
               }
           };
@@ -147,39 +401,121 @@ export const CameraView: React.FC<CameraViewProps> = ({
     startCamera();
 
     return () => {
-        if (videoRef.current && videoRef.current.srcObject) {
-            const stream = videoRef.current.srcObject as MediaStream;
+        stopped = true;
+        if (video.srcObject) {
+            const stream = video.srcObject as MediaStream;
             stream.getTracks().forEach(t => t.stop());
+            video.srcObject = null;
         }
     };
-  }, [onVideoReady]);
+  }, [onVideoReady, videoFile]);
 
-  // Initialize MediaPipe
+  // Initialize MediaPipe from the bundled assets; picking another model reloads it
   useEffect(() => {
+      const model = poseModel ?? DEFAULT_POSE_MODEL;
+      let cancelled = false;
+      setIsTracking(false);
+      setModelError('');
       const initPose = async () => {
           try {
-              const vision = await FilesetResolver.forVisionTasks(
-                  "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.14/wasm"
-              );
-              poseLandmarkerRef.current = await PoseLandmarker.createFromOptions(vision, {
-                  baseOptions: {
-                      modelAssetPath: `https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_full/float16/1/pose_landmarker_full.task`,
-                      delegate: "GPU"
-                  },
-                  runningMode: "VIDEO",
-                  numPoses: 1,
-                  minPoseDetectionConfidence: 0.5,
-                  minTrackingConfidence: 0.5,
-                  minPosePresenceConfidence: 0.5,
-                  outputSegmentationMasks: true, // Enabled for Exact Shape tracking
-              });
+              const { landmarker, delegate } = await createPoseLandmarker(model, MAX_POSES);
+              if (cancelled) {
+                  landmarker.close();
+                  return;
+              }
+              poseLandmarkerRef.current = landmarker;
+              setDelegate(delegate);
               setIsTracking(true);
           } catch (e) {
               console.error("Failed to load pose detection", e);
+              if (!cancelled) setModelError(`Could not load the ${POSE_MODELS[model].label} pose model. Run "npm run fetch-assets" and reload.`);
           }
       };
       initPose();
-  }, []);
+      return () => {
+          cancelled = true;
+          poseLandmarkerRef.current?.close();
+          poseLandmarkerRef.current = null;
+      };
+  }, [poseModel]);
+
+  // Build a fresh rep state machine / hold timer per workout
+  useEffect(() => {
+      analyzerRef.current?.setCalibration(calibration ?? null);
+      analyzerRef.current?.configure(workoutType, holdTargetSeconds);
+      partnerAnalyzerRef.current?.configure(workoutType, holdTargetSeconds);
+      setPartner({ ...EMPTY_PARTNER, hold: partnerAnalyzerRef.current?.holdStats ?? null });
+      setRepCount(0);
+      setRepPhase(null);
+      setLastTempo(null);
+      setSideReps({ left: 0, right: 0 });
+      setLastSides(null);
+      setHoldStats(analyzerRef.current?.holdStats ?? null);
+  }, [workoutType, holdTargetSeconds, calibration]);
+
+  useEffect(() => {
+      if (isCalibrating) {
+          analyzerRef.current?.startCalibration();
+      } else {
+          analyzerRef.current?.cancelCalibration();
+      }
+      setCalibrationProgress(null);
+  }, [isCalibrating]);
+
+  useEffect(() => {
+      if (imbalanceThresholdPct !== undefined) analyzerRef.current?.setImbalanceThreshold(imbalanceThresholdPct);
+  }, [imbalanceThresholdPct]);
+
+  // Every session, replay or program set starts counting from zero
+  useEffect(() => {
+      if (analyzing) {
+          analyzerRef.current?.reset();
+          partnerAnalyzerRef.current?.reset();
+          setPartner({ ...EMPTY_PARTNER, hold: partnerAnalyzerRef.current?.holdStats ?? null });
+          setRepCount(0);
+          setRepPhase(null);
+          setLastTempo(null);
+          setSideReps({ left: 0, right: 0 });
+          setLastSides(null);
+          setHoldStats(analyzerRef.current?.holdStats ?? null);
+      } else {
+          setPartner(prev => ({ ...prev, cue: null }));
+      }
+  }, [analyzing, resetKey]);
+
+  useEffect(() => {
+      if (partnerMode) return;
+      partnerIdRef.current = null;
+      setPartnerId(null);
+      partnerAnalyzerRef.current?.clearTracking();
+  }, [partnerMode]);
+
+  useEffect(() => {
+      replayRef.current = replay ? new ReplayCursor(replay) : null;
+      replayEndedRef.current = false;
+      trackerRef.current.reset();
+  }, [replay]);
+
+  useEffect(() => {
+      if (!isRecording) return;
+      recorderRef.current = new PoseRecorder(workoutType);
+      return () => {
+          const recorder = recorderRef.current;
+          recorderRef.current = null;
+          const video = videoRef.current;
+          if (recorder && recorder.frameCount > 0 && video) {
+              onRecordingComplete?.(recorder.finish(video.videoWidth, video.videoHeight));
+          }
+      };
+  }, [isRecording]);
+
+  // Report tracking quality totals once a second while a session runs
+  useEffect(() => {
+      if (!isActive) return;
+      trackingTimeRef.current = { GOOD: 0, POOR: 0, LOST: 0 };
+      const interval = setInterval(() => onTrackingStatsRef.current?.({ ...trackingTimeRef.current }), 1000);
+      return () => clearInterval(interval);
+  }, [isActive]);
 
   useEffect(() => {
     setTrackingChangeAnim(true);
@@ -187,106 +523,33 @@ export const CameraView: React.FC<CameraViewProps> = ({
     return () => clearTimeout(t);
   }, [trackingQuality]);
 
-  // Biomechanical Analysis
-  const analyzePose = (landmarks: NormalizedLandmark[], workout: WorkoutType, stabilityScore: number): string | null => {
-      const isVisible = (lm: NormalizedLandmark) => (lm.visibility ?? 0) > 0.5;
-      const leftShoulder = landmarks[11]; const rightShoulder = landmarks[12];
-      const leftElbow = landmarks[13]; const rightElbow = landmarks[14];
-      const leftWrist = landmarks[15]; const rightWrist = landmarks[16];
-      const leftHip = landmarks[23]; const rightHip = landmarks[24];
-      const leftKnee = landmarks[25]; const rightKnee = landmarks[26];
-      const leftAnkle = landmarks[27]; const rightAnkle = landmarks[28];
-      const leftHeel = landmarks[29]; const rightHeel = landmarks[30];
-
-      const shoulderWidth = Math.abs(leftShoulder.x - rightShoulder.x);
-      const torsoHeight = Math.abs(((leftShoulder.y + rightShoulder.y) / 2) - ((leftHip.y + rightHip.y) / 2));
-      const bodyScale = (shoulderWidth + torsoHeight) / 2;
-
-      if (bodyScale < 0.02) return null; 
-
-      switch (workout) {
-          case WorkoutType.SQUAT: {
-              const kneeWidth = Math.abs(leftKnee.x - rightKnee.x);
-              const ankleWidth = Math.abs(leftAnkle.x - rightAnkle.x);
-              if (ankleWidth > bodyScale * 0.2 && kneeWidth < ankleWidth * 0.75) return "Push Knees Out!";
-              const Z_THRESHOLD = bodyScale * 0.6; 
-              if (leftKnee.z < leftAnkle.z - Z_THRESHOLD || rightKnee.z < rightAnkle.z - Z_THRESHOLD) return "Keep Knees Behind Toes";
-              break;
-          }
-          case WorkoutType.PUSHUP: {
-             const SAG_THRESHOLD = bodyScale * 0.3;
-             if (leftHip.y > leftShoulder.y + SAG_THRESHOLD && leftHip.y > leftHeel.y + SAG_THRESHOLD) return "Lift Your Hips!";
-             break;
-          }
-          case WorkoutType.LUNGE: {
-             if (stabilityScore > 0.003) return "Balance & Control";
-             break;
-          }
-          case WorkoutType.BICEP_CURL: {
-              const leftActive = leftWrist.y < leftHip.y && isVisible(leftWrist);
-              const rightActive = rightWrist.y < rightHip.y && isVisible(rightWrist);
-              if (leftActive) {
-                  const elbowDrift = Math.abs(leftElbow.x - leftShoulder.x);
-                  if (elbowDrift > shoulderWidth * 0.9) return "Tuck Left Elbow";
-                  const angle = calculateAngle(leftShoulder, leftElbow, leftWrist);
-                  if (angle > 160 && stabilityScore < 0.001) return "Curl up fully";
-              }
-              if (rightActive) {
-                  const elbowDrift = Math.abs(rightElbow.x - rightShoulder.x);
-                  if (elbowDrift > shoulderWidth * 0.9) return "Tuck Right Elbow";
-              }
-              if (stabilityScore > 0.0025) return "Keep Torso Still";
-              break;
-          }
-          case WorkoutType.PLANK: {
-              const hipY = (leftHip.y + rightHip.y) / 2;
-              const ankleY = (leftAnkle.y + rightAnkle.y) / 2;
-              const shoulderY = (leftShoulder.y + rightShoulder.y) / 2;
-              const SAG_THRESHOLD = bodyScale * 0.3;
-              const PIKE_THRESHOLD = bodyScale * 0.15;
-              if (hipY > ankleY + SAG_THRESHOLD) return "Raise Hips!";
-              if (hipY < shoulderY - PIKE_THRESHOLD) return "Lower Hips";
-              if (stabilityScore > 0.002) return "Hold Steady!";
-              break;
-          }
-          case WorkoutType.TRICEP_EXTENSION: {
-              const isLeft = leftElbow.y < rightElbow.y;
-              const activeShoulder = isLeft ? leftShoulder : rightShoulder;
-              const activeElbow = isLeft ? leftElbow : rightElbow;
-              const activeWrist = isLeft ? leftWrist : rightWrist;
-              if (!isVisible(activeElbow) || !isVisible(activeWrist)) break;
-              const isOverhead = activeElbow.y < activeShoulder.y;
-              const elbowFlare = Math.abs(activeElbow.x - activeShoulder.x);
-              if (!isOverhead) return "Raise Elbow High";
-              if (elbowFlare > shoulderWidth * 1.4) return "Elbow closer to ear";
-              const angle = calculateAngle(activeShoulder, activeElbow, activeWrist);
-              if (stabilityScore < 0.001) {
-                  if (angle > 70 && angle < 140) return "Full Range needed";
-                  if (angle < 60) return "Extend Up";
-                  if (angle > 150) return "Lower Behind Head";
-              }
-              break;
-          }
-      }
-      return null;
-  };
-
   const detectPose = async () => {
+      const replayCursor = replayRef.current;
+      const liveReady = !!poseLandmarkerRef.current && !!videoRef.current && videoRef.current.readyState >= 2;
       if (
-          poseLandmarkerRef.current && 
-          videoRef.current && 
-          videoRef.current.readyState >= 2 &&
+          (replayCursor || liveReady) &&
           containerRef.current && 
           canvasRef.current
       ) {
+          const video = videoRef.current;
+          if (!replayCursor && isFileRef.current && video) {
+              // Paused or between decoded frames: keep the last overlay
+              if (video.currentTime === lastVideoTimeRef.current || video.seeking) {
+                  lastFrameTimeRef.current = 0;
+                  requestRef.current = requestAnimationFrame(detectPose);
+                  return;
+              }
+              lastVideoTimeRef.current = video.currentTime;
+          }
+
           const startTimeMs = performance.now();
           const canvas = canvasRef.current;
           const ctx = canvas.getContext('2d');
           
           const containerWidth = containerRef.current.clientWidth;
           const containerHeight = containerRef.current.clientHeight;
-          const videoWidth = videoRef.current.videoWidth;
-          const videoHeight = videoRef.current.videoHeight;
+          const videoWidth = replayCursor ? replayCursor.recording.videoWidth : videoRef.current!.videoWidth;
+          const videoHeight = replayCursor ? replayCursor.recording.videoHeight : videoRef.current!.videoHeight;
 
           if (videoWidth === 0 || videoHeight === 0 || containerWidth === 0 || containerHeight === 0) {
                requestRef.current = requestAnimationFrame(detectPose);
@@ -316,31 +579,54 @@ export const CameraView: React.FC<CameraViewProps> = ({
           if (ctx) {
               ctx.clearRect(0, 0, canvas.width, canvas.height);
               
-              let currentQuality: 'GOOD' | 'POOR' | 'LOST' = 'LOST';
+              let currentQuality: TrackingQuality = 'LOST';
               let currentScore = 0;
               let segmentationMask: any = null;
-              let landmarks: NormalizedLandmark[] | null = null;
+              // One mask per detected pose; all of them have to be closed
+              let masks: any[] = [];
+              let rawLandmarks: NormalizedLandmark[] | null = null;
+              let tracked: TrackedPerson[] = [];
               const now = Date.now();
 
               try {
-                  const results = poseLandmarkerRef.current.detectForVideo(videoRef.current, startTimeMs);
-                  
+                  if (replayCursor) {
+                      const frame = replayCursor.frameAt(startTimeMs);
+                      tracked = trackerRef.current.update(frame ? [frame] : [], now);
+                      if (replayCursor.done && !replayEndedRef.current) {
+                          replayEndedRef.current = true;
+                          callbacksRef.current.onReplayEnd?.();
+                      }
+                  } else {
+                      const results = poseLandmarkerRef.current!.detectForVideo(videoRef.current!, startTimeMs);
+                      masks = results.segmentationMasks ?? [];
+                      tracked = trackerRef.current.update(results.landmarks ?? [], now);
+                  }
+
+                  // --- PERSON SELECTION ---
+                  assignPeople(tracked);
+                  const coached = tracked.find(p => p.id === coachedIdRef.current) ?? null;
+                  const partnered = tracked.find(p => p.id === partnerIdRef.current) ?? null;
+                  rawLandmarks = coached?.landmarks ?? null;
+                  if (!replayCursor) recorderRef.current?.addFrame(startTimeMs, rawLandmarks);
+
                   // --- MASK PERSISTENCE LOGIC ---
-                  if (results.segmentationMasks && results.segmentationMasks.length > 0) {
-                      segmentationMask = results.segmentationMasks[0];
+                  if (coached && masks[coached.index]) {
+                      segmentationMask = masks[coached.index];
                       lastMaskTimeRef.current = now;
                   }
-                  
-                  // --- LANDMARK PERSISTENCE LOGIC ---
-                  if (results.landmarks && results.landmarks.length > 0) {
-                      landmarks = results.landmarks[0];
-                      lastValidLandmarksRef.current = landmarks;
-                      lastLandmarksTimeRef.current = now;
-                  } else {
-                      // Grace period: Use last known landmarks if < 200ms
-                      if (lastValidLandmarksRef.current && (now - lastLandmarksTimeRef.current < 200)) {
-                          landmarks = lastValidLandmarksRef.current;
-                      }
+
+                  // --- LANDMARK PERSISTENCE, SMOOTHING & HEURISTICS ---
+                  // A paused video still gets one detection after a seek, but must not count
+                  const playing = !isPausedRef.current && (!isFileRef.current || !!replayCursor || !video?.paused);
+                  const smoothedLandmarks = analyzerRef.current!.process(rawLandmarks, now, isActiveRef.current && playing);
+                  const partnerLandmarks = partnerModeRef.current
+                      ? partnerAnalyzerRef.current!.process(partnered?.landmarks ?? null, now, isActiveRef.current && playing)
+                      : null;
+                  if (isActiveRef.current) callbacksRef.current.onMotion?.(analyzerRef.current!.motion());
+                  if (isActiveRef.current && playing && now - lastTelemetryRef.current >= TELEMETRY_INTERVAL_MS) {
+                      const sample = analyzerRef.current!.telemetry();
+                      if (sample) callbacksRef.current.onTelemetry?.(sample);
+                      lastTelemetryRef.current = now;
                   }
                   
                   const scale = Math.max(containerWidth / videoWidth, containerHeight / videoHeight);
@@ -426,12 +712,12 @@ export const CameraView: React.FC<CameraViewProps> = ({
                       ctx.globalCompositeOperation = 'source-over';
                   }
 
-                  if (landmarks) {
-                      const smoothedLandmarks = adaptiveSmoothLandmarks(landmarks, prevLandmarksRef.current);
-                      
+                  // Each tracked person is drawn in their own colors
+                  const drawPerson = (landmarks: NormalizedLandmark[], colors: PersonColors) => {
+                      const { targetSegments } = getWorkout(workoutType);
                       const drawMusclePart = (startIdx: number, endIdx: number, partKey: keyof typeof ANATOMY_PATHS) => {
-                          const start = smoothedLandmarks[startIdx];
-                          const end = smoothedLandmarks[endIdx];
+                          const start = landmarks[startIdx];
+                          const end = landmarks[endIdx];
                           const def = ANATOMY_PATHS[partKey];
 
                           if (!start || !end) return;
@@ -451,8 +737,7 @@ export const CameraView: React.FC<CameraViewProps> = ({
                           const angle = Math.atan2(dy, dx) - Math.PI / 2;
 
                           // Check if this part is a target muscle for current workout
-                          const targets = TARGET_SEGMENTS[workoutType] || [];
-                          const isTarget = targets.includes(partKey);
+                          const isTarget = (targetSegments as string[]).includes(partKey);
 
                           ctx.save();
                           ctx.translate(startX, startY);
@@ -466,10 +751,10 @@ export const CameraView: React.FC<CameraViewProps> = ({
                           ctx.scale(scaleX, scaleY);
 
                           const p = new Path2D(def.path);
-                          // Active muscles get Hot Orange/Red, others get slightly lighter Green
+                          // Active muscles get the person's target color, others their base color
                           ctx.fillStyle = isTarget 
-                              ? `rgba(251, 146, 60, ${alpha})` // Orange-400
-                              : `rgba(52, 211, 153, ${alpha})`; // Emerald-400
+                              ? `rgba(${colors.target}, ${alpha})`
+                              : `rgba(${colors.base}, ${alpha})`;
                               
                           ctx.fill(p);
                           ctx.restore();
@@ -479,10 +764,10 @@ export const CameraView: React.FC<CameraViewProps> = ({
                       // Only draw active muscles or base structure
                       
                       // Torso needs special handling for orientation
-                      const midShoulderX = (smoothedLandmarks[11].x + smoothedLandmarks[12].x) / 2;
-                      const midShoulderY = (smoothedLandmarks[11].y + smoothedLandmarks[12].y) / 2;
-                      const midHipX = (smoothedLandmarks[23].x + smoothedLandmarks[24].x) / 2;
-                      const midHipY = (smoothedLandmarks[23].y + smoothedLandmarks[24].y) / 2;
+                      const midShoulderX = (landmarks[11].x + landmarks[12].x) / 2;
+                      const midShoulderY = (landmarks[11].y + landmarks[12].y) / 2;
+                      const midHipX = (landmarks[23].x + landmarks[24].x) / 2;
+                      const midHipY = (landmarks[23].y + landmarks[24].y) / 2;
                       const torsoStart = { x: midShoulderX, y: midShoulderY };
                       const torsoEnd = { x: midHipX, y: midHipY };
                       
@@ -496,7 +781,7 @@ export const CameraView: React.FC<CameraViewProps> = ({
                           const len = Math.hypot(dx, dy);
                           const angle = Math.atan2(dy, dx) - Math.PI / 2;
                           
-                          const isTarget = TARGET_SEGMENTS[workoutType]?.includes('torso');
+                          const isTarget = targetSegments.includes('torso');
                           
                           ctx.save();
                           ctx.translate(startX, startY);
@@ -506,8 +791,8 @@ export const CameraView: React.FC<CameraViewProps> = ({
                           ctx.scale(scaleX, scaleY);
                           
                           ctx.fillStyle = isTarget 
-                              ? 'rgba(251, 146, 60, 0.5)' 
-                              : 'rgba(52, 211, 153, 0.4)';
+                              ? `rgba(${colors.target}, 0.5)`
+                              : `rgba(${colors.base}, 0.4)`;
                               
                           ctx.fill(new Path2D(ANATOMY_PATHS.torso.path));
                           ctx.restore();
@@ -523,26 +808,26 @@ export const CameraView: React.FC<CameraViewProps> = ({
                       drawMusclePart(25, 27, 'calf'); 
                       drawMusclePart(26, 28, 'calf'); 
                       
-                      // Fingers (Digits) - usually not targeted, keep base green
+                      // Fingers (Digits) - usually not targeted, keep base color
                       drawMusclePart(15, 19, 'digit'); 
                       drawMusclePart(15, 17, 'digit'); 
                       drawMusclePart(16, 20, 'digit'); 
                       drawMusclePart(16, 18, 'digit'); 
 
-                      // Weld Joints - Keep consistent Green/Emerald
+                      // Weld Joints
                       const drawJointWeld = (idx: number, sizeFactor: number = 1.0) => {
-                          const lm = smoothedLandmarks[idx];
+                          const lm = landmarks[idx];
                           if (!lm || (lm.visibility ?? 0) < 0.1) return;
                           
                           const x = lm.x * renderedWidth - offsetX;
                           const y = lm.y * renderedHeight - offsetY;
                           
-                          const widthRef = Math.abs(smoothedLandmarks[11].x - smoothedLandmarks[12].x) * renderedWidth * 0.15; 
+                          const widthRef = Math.abs(landmarks[11].x - landmarks[12].x) * renderedWidth * 0.15; 
                           const radius = widthRef * sizeFactor * 1.3; 
                           
                           ctx.beginPath();
                           ctx.arc(x, y, radius, 0, 2 * Math.PI);
-                          ctx.fillStyle = `rgba(16, 185, 129, 0.7)`; // Emerald
+                          ctx.fillStyle = `rgba(${colors.joint}, 0.7)`;
                           ctx.fill();
                       };
 
@@ -556,6 +841,10 @@ export const CameraView: React.FC<CameraViewProps> = ({
                       drawJointWeld(26); // R Knee
                       drawJointWeld(15, 0.8); // L Wrist
                       drawJointWeld(16, 0.8); // R Wrist
+                  };
+
+                  if (smoothedLandmarks) {
+                      drawPerson(smoothedLandmarks, PERSON_COLORS[0]);
 
                       // Update Tracking Quality
                       let totalVis = 0;
@@ -573,53 +862,48 @@ export const CameraView: React.FC<CameraViewProps> = ({
                       if (currentScore > 0.8) currentQuality = 'GOOD';
                       else if (currentScore > 0.5) currentQuality = 'POOR';
                       else currentQuality = 'LOST';
-                      
-                      prevLandmarksRef.current = smoothedLandmarks;
                   }
 
                   // Restore context logic
                   ctx.globalCompositeOperation = 'source-over';
                   ctx.restore();
 
-                  // ... heuristics logic ...
-                  if (landmarks) {
-                     if (prevLandmarksRef.current) {
-                          const currentHips = { 
-                              x: (landmarks[23].x + landmarks[24].x)/2, 
-                              y: (landmarks[23].y + landmarks[24].y)/2 
-                          };
-                          const prevHips = { 
-                              x: (prevLandmarksRef.current[23].x + prevLandmarksRef.current[24].x)/2, 
-                              y: (prevLandmarksRef.current[23].y + prevLandmarksRef.current[24].y)/2 
-                          };
-                          const movement = Math.hypot(currentHips.x - prevHips.x, currentHips.y - prevHips.y);
-                          stabilityScoreRef.current = (stabilityScoreRef.current * 0.9) + (movement * 0.1);
-                      }
-                      
-                      const now = Date.now();
-                      if (isActive && now - lastHeuristicUpdateRef.current > 500) { 
-                          const localCue = analyzePose(landmarks, workoutType, stabilityScoreRef.current);
-                          setHeuristicFeedback(localCue);
-                          lastHeuristicUpdateRef.current = now;
-                      }
-                  } else {
-                      if (now - lastLandmarksTimeRef.current > 200) {
-                          currentQuality = 'LOST';
-                          currentScore = 0;
-                          prevLandmarksRef.current = null;
-                      }
-                  }
-                  
-                  if (segmentationMask && typeof segmentationMask.close === 'function') {
-                      segmentationMask.close();
+                  // The partner isn't clipped to the coached person's mask
+                  if (partnerLandmarks) drawPerson(partnerLandmarks, PERSON_COLORS[1]);
+
+                  // Tag everyone with their id so the right person can be picked
+                  if (tracked.length > 1) {
+                      tracked.forEach(person => {
+                          const nose = person.landmarks[0];
+                          const x = nose.x * renderedWidth - offsetX;
+                          const y = nose.y * renderedHeight - offsetY - 40;
+                          const colors = person.id === coachedIdRef.current ? PERSON_COLORS[0]
+                              : person.id === partnerIdRef.current ? PERSON_COLORS[1] : null;
+                          ctx.save();
+                          ctx.translate(x, y);
+                          // The canvas is mirrored with the webcam, text must not be
+                          if (!isFileRef.current) ctx.scale(-1, 1);
+                          ctx.font = 'bold 14px monospace';
+                          ctx.textAlign = 'center';
+                          ctx.fillStyle = colors ? `rgb(${colors.joint})` : 'rgba(148, 163, 184, 0.9)';
+                          ctx.fillText(`P${person.id}`, 0, 0);
+                          ctx.restore();
+                      });
                   }
 
+                  masks.forEach(mask => typeof mask?.close === 'function' && mask.close());
+
               } catch (e) {
                   console.error(e);
-                  if (segmentationMask && typeof segmentationMask.close === 'function') segmentationMask.close();
+                  masks.forEach(mask => typeof mask?.close === 'function' && mask.close());
               }
 
               const currentTime = Date.now();
+              if (isActiveRef.current && lastFrameTimeRef.current) {
+                  const dt = currentTime - lastFrameTimeRef.current;
+                  if (dt < 1000) trackingTimeRef.current[currentQuality] += dt;
+              }
+              lastFrameTimeRef.current = currentTime;
               if (currentQuality !== trackingQualityRef.current || Math.abs(currentScore - trackingScore) > 0.1 || currentTime - lastScoreUpdateRef.current > 100) {
                   trackingQualityRef.current = currentQuality;
                   setTrackingQuality(currentQuality);
@@ -631,65 +915,18 @@ export const CameraView: React.FC<CameraViewProps> = ({
       requestRef.current = requestAnimationFrame(detectPose);
   };
 
-  const adaptiveSmoothLandmarks = (
-      current: NormalizedLandmark[], 
-      prev: NormalizedLandmark[] | null
-  ): NormalizedLandmark[] => {
-      if (!prev) return current;
-
-      const coreIndices = [11, 12, 23, 24]; // Shoulders and Hips
-      let totalCoreMovement = 0;
-      let count = 0;
-      
-      coreIndices.forEach(idx => {
-          if (current[idx] && prev[idx]) {
-             totalCoreMovement += Math.hypot(current[idx].x - prev[idx].x, current[idx].y - prev[idx].y);
-             count++;
-          }
-      });
-      const globalVelocity = count > 0 ? totalCoreMovement / count : 0;
-
-      return current.map((curr, i) => {
-          const p = prev[i];
-          const localVelocity = Math.hypot(curr.x - p.x, curr.y - p.y);
-          // Hybrid Velocity: Use max of local movement or global body movement (scaled down)
-          const metric = Math.max(localVelocity, globalVelocity * 0.6);
-
-          const minAlpha = 0.08; 
-          const maxAlpha = 0.92; 
-          
-          const lowerThreshold = 0.0005;
-          const upperThreshold = 0.025; 
-          
-          let alpha = minAlpha;
-          
-          if (metric > lowerThreshold) {
-              // Cubic Ease-Out for snappier response
-              const t = Math.min(1, (metric - lowerThreshold) / (upperThreshold - lowerThreshold));
-              const curve = 1 - Math.pow(1 - t, 3);
-              alpha = minAlpha + (maxAlpha - minAlpha) * curve;
-          }
-
-          return {
-              x: lerp(p.x, curr.x, alpha),
-              y: lerp(p.y, curr.y, alpha),
-              z: lerp(p.z, curr.z, alpha),
-              visibility: curr.visibility
-          };
-      });
-  };
-
   useEffect(() => {
-      if (isTracking && hasPermission) {
+      if ((isTracking && hasPermission) || replay) {
           requestRef.current = requestAnimationFrame(detectPose);
       }
       return () => {
           if (requestRef.current) cancelAnimationFrame(requestRef.current);
       };
-  }, [isTracking, hasPermission, workoutType]);
+  }, [isTracking, hasPermission, workoutType, replay]);
 
-  const activeFeedback = feedback || heuristicFeedback;
-  const isHeuristic = !feedback && !!heuristicFeedback;
+  // In partner mode both HUDs name whose numbers they show
+  const partnerLabel = partnerMode && coachedId !== null ? ` • P${coachedId}` : '';
+  const cueStyle = cue ? CUE_STYLES[cue.source] : null;
 
   const getQualityColor = () => {
     switch (trackingQuality) {
@@ -715,6 +952,17 @@ export const CameraView: React.FC<CameraViewProps> = ({
   };
   
   const colors = getQualityColor();
+  const { repPattern, tempo: targetTempo, preferredViews } = getWorkout(workoutType);
+  const isPreferredView = !view || !preferredViews || preferredViews.includes(view);
+  const toSeconds = (ms: number) => (ms / 1000).toFixed(1);
+  // Unilateral reps show per-side counts; bilateral ones compare the last rep's range
+  const isUnilateral = repPattern?.symmetry?.mode === 'unilateral';
+  const romImbalanced = !!lastSides && !isUnilateral && imbalanceThresholdPct !== undefined &&
+      percentDiff(lastSides.left.rangeOfMotion, lastSides.right.rangeOfMotion) > imbalanceThresholdPct;
+  const formatClock = (ms: number) => {
+      const total = Math.ceil(ms / 1000);
+      return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+  };
 
   return (
     <div ref={containerRef} className="relative w-full h-full bg-black rounded-3xl overflow-hidden shadow-2xl border border-slate-700">
@@ -724,23 +972,23 @@ export const CameraView: React.FC<CameraViewProps> = ({
             </div>
         )}
         
-        {error && (
+        {(error || modelError) && (
             <div className="absolute inset-0 flex items-center justify-center text-red-500 bg-slate-900 z-50 p-4 text-center">
                 <Camera className="w-8 h-8 mb-2" />
-                <p>{error}</p>
+                <p>{error || modelError}</p>
             </div>
         )}
 
       <video
         ref={videoRef}
-        className={`w-full h-full object-cover transform scale-x-[-1] transition-opacity duration-500 ${hasPermission ? 'opacity-100' : 'opacity-0'}`}
+        className={`w-full h-full object-cover transform ${videoFile ? '' : 'scale-x-[-1]'} transition-opacity duration-500 ${hasPermission && !replay ? 'opacity-100' : replay ? 'opacity-20' : 'opacity-0'}`}
         playsInline
         muted
       />
 
       <canvas 
           ref={canvasRef}
-          className="absolute inset-0 pointer-events-none z-10 w-full h-full transform scale-x-[-1]"
+          className={`absolute inset-0 pointer-events-none z-10 w-full h-full transform ${videoFile ? '' : 'scale-x-[-1]'}`}
       />
       
       {isTracking && (
@@ -775,24 +1023,156 @@ export const CameraView: React.FC<CameraViewProps> = ({
                        </div>
                   </div>
               </div>
+              {delegate === 'CPU' && (
+                  <div className="mt-1 text-center text-[9px] font-bold font-mono uppercase tracking-wider text-amber-400">CPU Mode</div>
+              )}
+              {view && (
+                  <div className={`mt-1 text-center text-[9px] font-bold font-mono uppercase tracking-wider ${isPreferredView ? 'text-slate-400' : 'text-amber-400'}`}>
+                      View: {VIEW_LABELS[view]}
+                  </div>
+              )}
           </div>
       )}
       
-      {activeFeedback && (
-          <div className="absolute bottom-6 left-6 right-6 z-20 animate-in fade-in slide-in-from-bottom-2 duration-300">
-              <div className={`
-                  backdrop-blur-xl border p-4 rounded-2xl shadow-2xl flex items-start gap-3
-                  ${isHeuristic ? 'bg-indigo-900/80 border-indigo-500/30' : 'bg-black/70 border-cyan-500/30'}
-              `}>
-                  <div className={`p-2 rounded-full mt-1 ${isHeuristic ? 'bg-indigo-500/20 text-indigo-400' : 'bg-cyan-500/20 text-cyan-400'}`}>
-                      {isHeuristic ? <Activity size={24} /> : <MessageSquare size={24} />}
+      {replay && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-black/60 backdrop-blur-md px-3 py-1.5 rounded-full border border-cyan-500/30 text-[10px] font-bold uppercase tracking-wider text-cyan-300">
+              Replay • {replay.frames.length} frames
+          </div>
+      )}
+
+      {analyzing && repPattern && (
+          <div className="absolute top-4 left-4 z-20 bg-black/50 backdrop-blur-md rounded-2xl px-4 py-2 border border-white/10 shadow-lg shadow-black/20">
+              <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Reps{partnerLabel}</div>
+              <div className="text-3xl font-bold font-mono text-white leading-none">{repCount}</div>
+              <div className="text-[10px] font-mono text-emerald-400 mt-1 h-3">
+                  {repPhase ? repPattern.labels[repPhase] : ''}
+              </div>
+              {targetTempo && (
+                  <div className="text-[10px] font-mono text-slate-400 mt-1">
+                      TEMPO {formatTempo(targetTempo)}
+                      {lastTempo && (
+                          <span className="text-slate-200"> • {toSeconds(lastTempo.loweringMs)}-{toSeconds(lastTempo.bottomMs)}-{toSeconds(lastTempo.liftingMs)}</span>
+                      )}
+                  </div>
+              )}
+              {lastSides && (isUnilateral ? (
+                  <div className="text-[10px] font-mono mt-1 text-slate-400">
+                      L <span className="text-slate-200">{sideReps.left}</span> • R <span className="text-slate-200">{sideReps.right}</span>
+                  </div>
+              ) : (
+                  <div className={`text-[10px] font-mono mt-1 ${romImbalanced ? 'text-amber-400' : 'text-slate-400'}`}>
+                      L/R ROM <span className={romImbalanced ? '' : 'text-slate-200'}>{lastSides.left.rangeOfMotion}°/{lastSides.right.rangeOfMotion}°</span>
+                  </div>
+              ))}
+          </div>
+      )}
+
+      {people.length > 1 && (
+          <div className="absolute top-14 left-1/2 -translate-x-1/2 z-20 bg-black/60 backdrop-blur-md px-2 py-1 rounded-full border border-white/10 flex items-center gap-1">
+              <Users size={12} className="text-slate-400 mx-1" />
+              {people.map(id => (
+                  <button
+                      key={id}
+                      onClick={() => selectPerson(id)}
+                      className={`px-2 py-0.5 rounded-full text-[10px] font-bold font-mono transition-colors ${
+                          id === coachedId ? 'bg-emerald-500/30 text-emerald-300'
+                          : id === partnerId ? 'bg-sky-500/30 text-sky-300'
+                          : 'text-slate-400 hover:text-slate-200'}`}
+                  >
+                      P{id}
+                  </button>
+              ))}
+          </div>
+      )}
+
+      {analyzing && partnerMode && partnerId !== null && (
+          <div className="absolute top-4 right-20 z-20 bg-black/50 backdrop-blur-md rounded-2xl px-4 py-2 border border-sky-500/30 shadow-lg shadow-black/20 max-w-[10rem]">
+              <div className="text-[10px] font-bold uppercase tracking-wider text-sky-400">Partner • P{partnerId}</div>
+              <div className="text-3xl font-bold font-mono text-white leading-none">
+                  {partner.hold ? formatClock(partner.hold.validMs) : partner.repCount}
+              </div>
+              <div className="text-[10px] font-mono text-sky-300 mt-1 h-3">
+                  {partner.hold ? partner.hold.status : partner.phase && repPattern ? repPattern.labels[partner.phase] : ''}
+              </div>
+              {partner.cue && <div className="text-[10px] font-bold text-amber-400 mt-1 leading-tight">{partner.cue}</div>}
+          </div>
+      )}
+
+      {analyzing && holdStats && (
+          <div className="absolute top-4 left-4 z-20 bg-black/50 backdrop-blur-md rounded-2xl px-4 py-2 border border-white/10 shadow-lg shadow-black/20">
+              <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                  {holdStats.validMs >= holdStats.targetMs ? 'Overtime' : 'Hold'}{partnerLabel}
+              </div>
+              <div className={`text-3xl font-bold font-mono leading-none ${holdStats.status === 'HOLDING' ? 'text-white' : 'text-amber-400'}`}>
+                  {formatClock(Math.abs(holdStats.targetMs - holdStats.validMs))}
+              </div>
+              <div className="text-[10px] font-mono mt-1 text-slate-400">
+                  {holdStats.status === 'HOLDING' && <span className="text-emerald-400">HOLDING</span>}
+                  {holdStats.status === 'BROKEN' && <span className="text-amber-400">PAUSED • FIX FORM</span>}
+                  {holdStats.status === 'WAITING' && 'GET IN POSITION'}
+                  {holdStats.breaks > 0 && ` • ${holdStats.breaks} breaks`}
+              </div>
+          </div>
+      )}
+
+      {isCalibrating && (
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-30 w-72 bg-black/70 backdrop-blur-md rounded-2xl px-5 py-4 border border-emerald-500/30 shadow-lg shadow-black/20 text-center">
+              <div className="text-[10px] font-bold uppercase tracking-wider text-emerald-400">Calibrating</div>
+              <div className="text-lg font-bold text-white mt-1">
+                  {calibrationProgress?.status ?? 'Stand in a T-Pose Facing the Camera'}
+              </div>
+              <div className="mt-3 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                  <div
+                      className="h-full bg-emerald-500 transition-[width] duration-200"
+                      style={{ width: `${Math.round((calibrationProgress?.progress ?? 0) * 100)}%` }}
+                  />
+              </div>
+          </div>
+      )}
+
+      {videoFile && hasPermission && !replay && (
+          <div className="absolute bottom-0 left-0 right-0 z-30 px-4 py-3 bg-gradient-to-t from-black/80 to-transparent flex items-center gap-3">
+              <button
+                  onClick={() => {
+                      const video = videoRef.current;
+                      if (!video) return;
+                      if (video.paused) playVideo(video); else video.pause();
+                  }}
+                  className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white"
+              >
+                  {playback.paused ? <Play size={16} fill="currentColor" /> : <Pause size={16} fill="currentColor" />}
+              </button>
+              <input
+                  type="range"
+                  min={0}
+                  max={playback.duration || 0}
+                  step={0.1}
+                  value={playback.currentTime}
+                  onChange={(e) => {
+                      if (videoRef.current) videoRef.current.currentTime = Number(e.target.value);
+                  }}
+                  className="flex-1 accent-emerald-500"
+              />
+              <span className="text-[10px] font-mono text-slate-300 w-20 text-right">
+                  {formatClock(playback.currentTime * 1000)} / {formatClock(playback.duration * 1000)}
+              </span>
+          </div>
+      )}
+
+      {cue && cueStyle && (
+          <div className={`absolute ${videoFile ? 'bottom-16' : 'bottom-6'} left-6 right-6 z-20 animate-in fade-in slide-in-from-bottom-2 duration-300`}>
+              <div className={`backdrop-blur-xl border p-4 rounded-2xl shadow-2xl flex items-start gap-3 ${cueStyle.box}`}>
+                  <div className={`p-2 rounded-full mt-1 ${cueStyle.badge}`}>
+                      <cueStyle.Icon size={24} />
                   </div>
                   <div>
-                      <h4 className={`text-xs font-bold uppercase tracking-wider mb-1 ${isHeuristic ? 'text-indigo-400' : 'text-cyan-400'}`}>
-                          {isHeuristic ? 'Form Correction' : 'Coach Gemini'}
+                      {/* Why this cue has the screen: who said it and how much it matters */}
+                      <h4 className={`text-xs font-bold uppercase tracking-wider mb-1 flex items-center gap-2 ${cueStyle.text}`}>
+                          {cue.label}
+                          <span className="px-1.5 py-0.5 rounded bg-white/10 text-[9px] text-white/70">{cue.priority}</span>
                       </h4>
                       <p className="text-white text-xl font-bold leading-tight drop-shadow-md">
-                        {activeFeedback}
+                        {cue.text}
                       </p>
                   </div>
               </div>
@@ -0,0 +1,133 @@
+import React, { useRef, useState } from 'react';
+import { WorkoutSession } from '../types';
+import { exerciseRegistry } from '../services/exerciseRegistry';
+import { exportSessionCsv, exportSessionJson, downloadFile } from '../utils/sessionExport';
+import { totalHold } from '../utils/sessionStats';
+import { ChevronDown, ChevronRight, Download, FileText, Trash2, Upload } from 'lucide-react';
+
+interface HistoryPanelProps {
+  sessions: WorkoutSession[];
+  onDelete: (id: string) => void;
+  onView: (session: WorkoutSession) => void;
+  onImport: (file: File) => void;
+}
+
+const formatDuration = (ms: number) => {
+  const total = Math.round(ms / 1000);
+  return `${Math.floor(total / 60)}m ${total % 60}s`;
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessions, onDelete, onView, onImport }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const exportSession = (session: WorkoutSession, format: 'json' | 'csv') => {
+    const name = `formfit-${session.workout.replace(/\s+/g, '-').toLowerCase()}-${new Date(session.startTime).toISOString().slice(0, 19).replace(/:/g, '')}`;
+    if (format === 'json') downloadFile(`${name}.json`, exportSessionJson(session), 'application/json');
+    else downloadFile(`${name}.csv`, exportSessionCsv(session), 'text/csv');
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300"
+      >
+        <Upload size={12} /> Import JSON
+      </button>
+
+      {sessions.length === 0 && (
+        <div className="text-slate-500 text-xs italic">No saved sessions yet.</div>
+      )}
+
+      {sessions.map(session => {
+        const isExpanded = expandedId === session.id;
+        const trackedMs = session.tracking.GOOD + session.tracking.POOR + session.tracking.LOST;
+        const goodShare = trackedMs > 0 ? Math.round((session.tracking.GOOD / trackedMs) * 100) : 0;
+        const hold = totalHold(session.holds);
+
+        return (
+          <div key={session.id} className="rounded-xl bg-slate-800/50 border border-slate-700/50 overflow-hidden">
+            <button
+              onClick={() => setExpandedId(isExpanded ? null : session.id)}
+              className="w-full px-4 py-3 flex items-center gap-2 text-left hover:bg-slate-800 transition-colors"
+            >
+              {isExpanded ? <ChevronDown size={14} className="text-slate-500" /> : <ChevronRight size={14} className="text-slate-500" />}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-slate-200 truncate">{exerciseRegistry.get(session.workout)?.name ?? session.workout}</div>
+                <div className="text-[10px] font-mono text-slate-500">
+                  {new Date(session.startTime).toLocaleString()} • {formatDuration(session.endTime - session.startTime)}
+                </div>
+              </div>
+              <span className="text-xs font-mono text-emerald-400">
+                {hold ? `${Math.round(hold.validMs / 1000)}s` : `${session.reps.length} reps`}
+              </span>
+            </button>
+
+            {isExpanded && (
+              <div className="px-4 pb-3 space-y-2 text-xs text-slate-400">
+                {session.sets.map(set => (
+                  <div key={set.index} className="flex justify-between font-mono">
+                    <span>Set {set.index}</span>
+                    <span>{set.reps} reps • TUT {(set.timeUnderTensionMs / 1000).toFixed(0)}s</span>
+                  </div>
+                ))}
+                {session.holds.map((set, i) => (
+                  <div key={i} className="flex justify-between font-mono">
+                    <span>Hold {i + 1}</span>
+                    <span>{Math.round(set.validMs / 1000)}s • {set.breaks} breaks • longest {Math.round(set.longestCleanMs / 1000)}s</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-mono">
+                  <span>Tracking</span>
+                  <span>{goodShare}% good</span>
+                </div>
+                <div className="flex justify-between font-mono">
+                  <span>Cues</span>
+                  <span>{session.cues.length}</span>
+                </div>
+                <div className="flex items-center gap-4 pt-1">
+                  <button
+                    onClick={() => onView(session)}
+                    className="flex items-center gap-1 text-emerald-400/80 hover:text-emerald-400"
+                  >
+                    <FileText size={12} /> Summary
+                  </button>
+                  <button
+                    onClick={() => exportSession(session, 'json')}
+                    className="flex items-center gap-1 hover:text-slate-200"
+                  >
+                    <Download size={12} /> JSON
+                  </button>
+                  <button
+                    onClick={() => exportSession(session, 'csv')}
+                    className="flex items-center gap-1 hover:text-slate-200"
+                  >
+                    <Download size={12} /> CSV
+                  </button>
+                  <button
+                    onClick={() => onDelete(session.id)}
+                    className="flex items-center gap-1 text-red-400/80 hover:text-red-400"
+                  >
+                    <Trash2 size={12} /> Delete
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
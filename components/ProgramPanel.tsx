@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { ExerciseId, ProgramBlock, ProgramProgress, WorkoutProgram, WorkoutType } from '../types';
+import { exerciseRegistry } from '../services/exerciseRegistry';
+import { createBlock } from '../services/programStore';
+import { ArrowDown, ArrowUp, Check, ListOrdered, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+interface ProgramPanelProps {
+  programs: WorkoutProgram[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onSave: (program: WorkoutProgram) => void;
+  onDelete: (id: string) => void;
+  // Locked while a session runs
+  disabled: boolean;
+  progress: ProgramProgress | null;
+}
+
+export const describeBlock = (block: ProgramBlock) => {
+  const target = block.targetSeconds ? `${block.targetSeconds}s` : `${block.targetReps ?? 0} reps`;
+  return `${block.sets} × ${target} • rest ${block.restSeconds}s`;
+};
+
+const numberInputClass = 'w-14 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-xs font-mono text-slate-200';
+
+const BlockEditor: React.FC<{
+  block: ProgramBlock;
+  onChange: (block: ProgramBlock) => void;
+  onMove: (delta: number) => void;
+  onRemove: () => void;
+}> = ({ block, onChange, onMove, onRemove }) => {
+  const isHold = !!exerciseRegistry.get(block.workout)?.hold;
+  const setNumber = (field: 'sets' | 'targetReps' | 'targetSeconds' | 'restSeconds', value: string, min: number) =>
+    onChange({ ...block, [field]: Math.max(min, Math.round(Number(value) || 0)) });
+
+  return (
+    <div className="p-3 rounded-lg bg-slate-800/70 space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={block.workout}
+          onChange={(e) => {
+            const workout = e.target.value as ExerciseId;
+            const defaults = createBlock(workout);
+            onChange({ ...block, workout, targetReps: defaults.targetReps, targetSeconds: defaults.targetSeconds });
+          }}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+        >
+          {!exerciseRegistry.has(block.workout) && <option value={block.workout}>{block.workout} (missing)</option>}
+          {exerciseRegistry.list().map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+        </select>
+        <button onClick={() => onMove(-1)} className="text-slate-500 hover:text-slate-200"><ArrowUp size={12} /></button>
+        <button onClick={() => onMove(1)} className="text-slate-500 hover:text-slate-200"><ArrowDown size={12} /></button>
+        <button onClick={onRemove} className="text-red-400/80 hover:text-red-400"><Trash2 size={12} /></button>
+      </div>
+      <div className="flex items-center gap-3 text-[10px] text-slate-400">
+        <label className="flex items-center gap-1">
+          Sets <input type="number" min={1} value={block.sets} onChange={(e) => setNumber('sets', e.target.value, 1)} className={numberInputClass} />
+        </label>
+        {isHold ? (
+          <label className="flex items-center gap-1">
+            Hold s <input type="number" min={5} value={block.targetSeconds ?? 0} onChange={(e) => setNumber('targetSeconds', e.target.value, 5)} className={numberInputClass} />
+          </label>
+        ) : (
+          <label className="flex items-center gap-1">
+            Reps <input type="number" min={1} value={block.targetReps ?? 0} onChange={(e) => setNumber('targetReps', e.target.value, 1)} className={numberInputClass} />
+          </label>
+        )}
+        <label className="flex items-center gap-1">
+          Rest s <input type="number" min={0} value={block.restSeconds} onChange={(e) => setNumber('restSeconds', e.target.value, 0)} className={numberInputClass} />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export const ProgramPanel: React.FC<ProgramPanelProps> = ({ programs, selectedId, onSelect, onSave, onDelete, disabled, progress }) => {
+  const [editing, setEditing] = useState<WorkoutProgram | null>(null);
+
+  const updateBlock = (index: number, block: ProgramBlock) =>
+    editing && setEditing({ ...editing, blocks: editing.blocks.map((b, i) => i === index ? block : b) });
+
+  const moveBlock = (index: number, delta: number) => {
+    if (!editing) return;
+    const target = index + delta;
+    if (target < 0 || target >= editing.blocks.length) return;
+    const blocks = [...editing.blocks];
+    [blocks[index], blocks[target]] = [blocks[target], blocks[index]];
+    setEditing({ ...editing, blocks });
+  };
+
+  if (editing) {
+    return (
+      <div className="space-y-2">
+        <input
+          value={editing.name}
+          onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+          placeholder="Program name"
+          className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200"
+        />
+        {editing.blocks.map((block, i) => (
+          <BlockEditor
+            key={block.id}
+            block={block}
+            onChange={(b) => updateBlock(i, b)}
+            onMove={(delta) => moveBlock(i, delta)}
+            onRemove={() => setEditing({ ...editing, blocks: editing.blocks.filter((_, j) => j !== i) })}
+          />
+        ))}
+        <div className="flex items-center gap-4 pt-1 text-xs">
+          <button
+            onClick={() => setEditing({ ...editing, blocks: [...editing.blocks, createBlock(WorkoutType.SQUAT)] })}
+            className="flex items-center gap-1 text-slate-400 hover:text-slate-200"
+          >
+            <Plus size={12} /> Add Block
+          </button>
+          <div className="flex-1" />
+          <button onClick={() => setEditing(null)} className="flex items-center gap-1 text-slate-500 hover:text-slate-300">
+            <X size={12} /> Cancel
+          </button>
+          <button
+            onClick={() => {
+              onSave({ ...editing, name: editing.name.trim() || 'Untitled Program' });
+              setEditing(null);
+            }}
+            disabled={editing.blocks.length === 0}
+            className="flex items-center gap-1 text-emerald-400/80 hover:text-emerald-400 disabled:opacity-40"
+          >
+            <Check size={12} /> Save
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const option = (id: string | null, label: string, detail: string) => (
+    <button
+      onClick={() => onSelect(id)}
+      disabled={disabled}
+      className={`
+        flex-1 px-4 py-2 rounded-xl text-left transition-all duration-200 border
+        ${selectedId === id
+          ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-100'
+          : 'bg-slate-800/50 border-transparent text-slate-400 hover:bg-slate-800 hover:text-slate-200'}
+        ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
+      `}
+    >
+      <div className="text-sm font-medium">{label}</div>
+      <div className="text-[10px] font-mono text-slate-500">{detail}</div>
+    </button>
+  );
+
+  return (
+    <div className="space-y-2">
+      {option(null, 'Free Workout', 'Pick one exercise below')}
+      {programs.map(program => {
+        const isRunning = !!progress && selectedId === program.id;
+        return (
+          <div key={program.id} className="space-y-1">
+            <div className="flex items-center gap-2">
+              {option(program.id, program.name, `${program.blocks.length} blocks`)}
+              {!disabled && (
+                <div className="flex flex-col gap-2">
+                  <button onClick={() => setEditing(program)} className="text-slate-500 hover:text-slate-200"><Pencil size={12} /></button>
+                  <button onClick={() => onDelete(program.id)} className="text-red-400/80 hover:text-red-400"><Trash2 size={12} /></button>
+                </div>
+              )}
+            </div>
+            {selectedId === program.id && (
+              <div className="px-2 space-y-1">
+                {program.blocks.map((block, i) => {
+                  const active = isRunning && progress.blockIndex === i && progress.phase !== 'DONE';
+                  const done = isRunning && (progress.blockIndex > i || progress.phase === 'DONE');
+                  return (
+                    <div key={block.id} className={`flex justify-between text-[10px] font-mono ${active ? 'text-emerald-400' : done ? 'text-slate-600 line-through' : 'text-slate-500'}`}>
+                      <span>{i + 1}. {exerciseRegistry.get(block.workout)?.name ?? block.workout}</span>
+                      <span>{active ? `set ${progress.set}/${block.sets}` : describeBlock(block)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {!disabled && (
+        <button
+          onClick={() => setEditing({ id: crypto.randomUUID(), name: '', blocks: [createBlock(WorkoutType.SQUAT)], updatedAt: Date.now() })}
+          className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-300"
+        >
+          <ListOrdered size={12} /> New Program
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { WorkoutType } from '../types';
+import { ExerciseId, WorkoutType } from '../types';
+import { exerciseRegistry } from '../services/exerciseRegistry';
 
 interface Props {
-  workoutType: WorkoutType;
+  workoutType: ExerciseId;
 }
 
 type ViewAngle = 'FRONT' | 'SIDE' | 'BACK';
@@ -31,16 +32,7 @@ export const ReferenceVisualizer: React.FC<Props> = ({ workoutType }) => {
   const colorDetail = "#047857"; // Emerald-700
 
   // Target Muscles Config
-  const TARGET_MUSCLES: Record<WorkoutType, string[]> = {
-      [WorkoutType.SQUAT]: ['quads', 'glutes', 'hamstrings'],
-      [WorkoutType.PUSHUP]: ['pecs', 'triceps', 'delts'],
-      [WorkoutType.LUNGE]: ['quads', 'glutes', 'hamstrings', 'calves'],
-      [WorkoutType.BICEP_CURL]: ['biceps'],
-      [WorkoutType.TRICEP_EXTENSION]: ['triceps'],
-      [WorkoutType.PLANK]: ['abs', 'delts', 'quads']
-  };
-
-  const activeTargets = TARGET_MUSCLES[workoutType] || [];
+  const activeTargets: string[] = exerciseRegistry.get(workoutType)?.targetMuscles ?? [];
 
   // --- MUSCULAR ANATOMY PATHS (Based on Anatomy Chart) ---
   const paths = {
@@ -631,6 +623,420 @@ export const ReferenceVisualizer: React.FC<Props> = ({ workoutType }) => {
       )
   };
 
+  const renderDeadlift = (isSide: boolean, isBack: boolean) => {
+      if (isSide) {
+          // Upper body hinges around the hip (0,0); the arms counter-rotate so they hang straight
+          return (
+              <g transform="translate(0, 100)">
+                  {/* Far Leg */}
+                  <g transform="translate(8, -8)">
+                      <g style={{ animation: 'vector-deadlift-thigh 3s ease-in-out infinite', transformOrigin: '0 0' }}>
+                          <LegGroup fill={colorFar} isBack={true} />
+                          <Joint fill={colorFar} r={16} />
+                          <g transform="translate(0, 75)">
+                              <g style={{ animation: 'vector-deadlift-shin 3s ease-in-out infinite', transformOrigin: '0 0' }}>
+                                  <Muscle d={paths.calf} name="calves" fill={colorFar} />
+                                  <Joint fill={colorFar} r={14} />
+                              </g>
+                          </g>
+                      </g>
+                  </g>
+
+                  <g style={{ animation: 'vector-deadlift-hinge 3s ease-in-out infinite', transformOrigin: '0 0' }}>
+                      {/* Far Arm */}
+                      <g transform="translate(15, -145)">
+                          <g style={{ animation: 'vector-deadlift-arm 3s ease-in-out infinite', transformOrigin: '0 0' }}>
+                              <ArmGroup fill={colorFar} />
+                              <Joint fill={colorFar} r={14} />
+                              <path d={paths.forearm} fill={colorFar} transform="translate(0, 55)" />
+                          </g>
+                      </g>
+
+                      <g transform="translate(0, -100)">
+                          <TorsoGroup fill={colorNear} detailColor={colorDetail} />
+                      </g>
+                      <path d={paths.head} fill={colorSkin} transform="translate(0, -175)" />
+
+                      {/* Near Arm + Bar */}
+                      <g transform="translate(0, -145)">
+                          <g style={{ animation: 'vector-deadlift-arm 3s ease-in-out infinite', transformOrigin: '0 0' }}>
+                              <ArmGroup fill={colorNear} />
+                              <Joint fill={colorNear} r={16} />
+                              <g transform="translate(0, 55)">
+                                  <path d={paths.forearm} fill={colorNear} />
+                                  <Joint fill={colorNear} r={14} />
+                              </g>
+                              <circle cx="0" cy="100" r="34" fill={colorWeight} />
+                              <circle cx="0" cy="100" r="8" fill="#1e293b" />
+                          </g>
+                      </g>
+                  </g>
+
+                  {/* Near Leg */}
+                  <g transform="translate(-8, 8)">
+                      <g style={{ animation: 'vector-deadlift-thigh 3s ease-in-out infinite', transformOrigin: '0 0' }}>
+                          <LegGroup fill={colorNear} isBack={true} />
+                          <Joint fill={colorNear} r={20} />
+                          <g transform="translate(0, 75)">
+                              <g style={{ animation: 'vector-deadlift-shin 3s ease-in-out infinite', transformOrigin: '0 0' }}>
+                                  <Muscle d={paths.calf} name="calves" fill={colorNear} />
+                                  <Joint fill={colorNear} r={14} />
+                              </g>
+                          </g>
+                      </g>
+                  </g>
+              </g>
+          );
+      }
+
+      // Seen head-on the hinge foreshortens the torso, so it squashes towards the hips
+      return (
+          <g transform="translate(0, 100)">
+              {[-25, 25].map(x => (
+                  <g key={x} transform={`translate(${x}, 0)`}>
+                      <LegGroup fill={colorNear} isBack={isBack} />
+                      <Joint fill={colorNear} r={20} />
+                      <g transform="translate(0, 75)">
+                          <Muscle d={paths.shin} name="calves" fill={colorNear} />
+                          <Joint fill={colorNear} r={14} />
+                      </g>
+                  </g>
+              ))}
+
+              <g style={{ animation: 'vector-deadlift-torso-front 3s ease-in-out infinite', transformOrigin: '0 0' }}>
+                  <g transform="translate(0, -100)">
+                      <TorsoGroup fill={colorNear} detailColor={colorDetail} />
+                  </g>
+              </g>
+
+              <g style={{ animation: 'vector-deadlift-shoulders-front 3s ease-in-out infinite' }}>
+                  <path d={paths.head} fill={isBack ? colorHair : colorSkin} transform="translate(0, -175)" />
+
+                  {[-1, 1].map(side => (
+                      <g key={side} transform={`translate(${48 * side}, -145)`}>
+                          <ArmGroup fill={colorNear} />
+                          <Joint fill={colorNear} r={16} />
+                          <g transform="translate(0, 55)">
+                              <path d={paths.forearm} fill={colorNear} />
+                              <Joint fill={colorNear} r={14} />
+                          </g>
+                      </g>
+                  ))}
+
+                  <g transform="translate(0, -45)">
+                      <rect x="-85" y="-4" width="170" height="8" fill="#1e293b" rx="4" />
+                      <rect x="-100" y="-26" width="14" height="52" fill={colorWeight} rx="4" />
+                      <rect x="86" y="-26" width="14" height="52" fill={colorWeight} rx="4" />
+                  </g>
+              </g>
+          </g>
+      );
+  };
+
+  const renderPress = (isSide: boolean, isBack: boolean) => {
+      // Rack -> lockout. The forearm counter-rotates so it stays vertical under the weight
+      const PressArm = ({ color, side }: { color: string, side: 'left' | 'right' }) => (
+          <g style={{ animation: `vector-press-arm-${side} 3s infinite`, transformOrigin: '0 0' }}>
+              <ArmGroup fill={color} />
+              <Joint fill={color} r={16} />
+              <g transform="translate(0, 55)">
+                  <g style={{ animation: `vector-press-forearm-${side} 3s infinite`, transformOrigin: '0 0' }}>
+                      <path d={paths.forearm} fill={color} />
+                      <Joint fill={color} r={14} />
+                      <g transform="translate(0, 45)">
+                          <rect x="-15" y="-5" width="30" height="10" fill="#1e293b" rx="4" />
+                          <circle cx="-18" cy="0" r="12" fill={colorWeight} />
+                          <circle cx="18" cy="0" r="12" fill={colorWeight} />
+                      </g>
+                  </g>
+              </g>
+          </g>
+      );
+
+      return (
+          <g transform="translate(0, 100)">
+              {isSide && (
+                  <g transform="translate(15, -145)">
+                      <PressArm color={colorFar} side="right" />
+                  </g>
+              )}
+
+              <g transform="translate(0, -100)">
+                  <TorsoGroup fill={colorNear} detailColor={colorDetail} />
+              </g>
+
+              <g transform={`translate(${isSide ? 0 : -22}, 0)`}>
+                  <LegGroup fill={colorNear} isBack={isBack} />
+                  <Muscle d={paths.shin} name="calves" fill={colorNear} />
+                  <Joint fill={colorNear} r={20} />
+                  <Joint fill={colorNear} r={14} transform="translate(0, 75)" />
+              </g>
+              {!isSide && (
+                  <g transform="translate(22, 0)">
+                      <LegGroup fill={colorNear} isBack={isBack} />
+                      <Muscle d={paths.shin} name="calves" fill={colorNear} />
+                      <Joint fill={colorNear} r={20} />
+                      <Joint fill={colorNear} r={14} transform="translate(0, 75)" />
+                  </g>
+              )}
+
+              <path d={paths.head} fill={isBack ? colorHair : colorSkin} transform="translate(0, -175)" />
+
+              {isSide ? (
+                  <g transform="translate(0, -145)">
+                      <PressArm color={colorNear} side="right" />
+                  </g>
+              ) : (
+                  <>
+                      <g transform="translate(-48, -145)">
+                          <PressArm color={colorNear} side="left" />
+                      </g>
+                      <g transform="translate(48, -145)">
+                          <PressArm color={colorNear} side="right" />
+                      </g>
+                  </>
+              )}
+          </g>
+      );
+  };
+
+  const renderBridge = (isSide: boolean) => {
+      if (isSide) {
+          // Chain from the shoulder on the floor: torso -> thigh -> shin, angles keep the feet planted
+          const BridgeLeg = ({ color }: { color: string }) => (
+              <g transform="translate(110, 0)">
+                  <g style={{ animation: 'vector-bridge-thigh 3s infinite', transformOrigin: '0 0' }}>
+                      <LegGroup fill={color} isBack={true} />
+                      <Joint fill={color} r={20} />
+                      <g transform="translate(0, 75)">
+                          <g style={{ animation: 'vector-bridge-shin 3s infinite', transformOrigin: '0 0' }}>
+                              <Muscle d={paths.calf} name="calves" fill={color} />
+                              <Joint fill={color} r={14} />
+                              <path d={paths.foot} fill={color} transform="translate(0, 70) rotate(-90)" />
+                          </g>
+                      </g>
+                  </g>
+              </g>
+          );
+
+          return (
+              <g transform="translate(-20, 150)">
+                  <line x1="-150" y1="50" x2="200" y2="50" stroke="#334155" strokeWidth="4" />
+                  <path d={paths.head} fill={colorSkin} transform="translate(-130, 22) rotate(90)" />
+
+                  <g transform="translate(-90, 0)">
+                      <g style={{ animation: 'vector-bridge-hips 3s infinite', transformOrigin: '0 0' }}>
+                          <g transform="translate(-8, -8)">
+                              <BridgeLeg color={colorFar} />
+                          </g>
+                          <g transform="translate(65, 0) rotate(-90)">
+                              <TorsoGroup fill={colorNear} detailColor={colorDetail} />
+                          </g>
+                          <BridgeLeg color={colorNear} />
+                      </g>
+
+                      {/* Arms stay flat on the floor */}
+                      <g transform="translate(0, 25) rotate(-90)">
+                          <ArmGroup fill={colorNear} />
+                          <Joint fill={colorNear} r={16} />
+                          <g transform="translate(0, 55)">
+                              <path d={paths.forearm} fill={colorNear} />
+                              <Joint fill={colorNear} r={14} />
+                          </g>
+                      </g>
+                  </g>
+              </g>
+          );
+      }
+
+      // Looking up from the feet: shins stay put while the hips rise behind the knees
+      return (
+          <g transform="translate(0, 150)">
+              <line x1="-150" y1="50" x2="150" y2="50" stroke="#334155" strokeWidth="4" />
+              <path d={paths.head} fill={colorHair} transform="translate(0, 20)" />
+
+              <g style={{ animation: 'vector-bridge-lift 3s infinite' }}>
+                  <g transform="translate(0, 10) scale(1, 0.4)">
+                      <TorsoGroup fill={colorFar} detailColor={colorDetail} />
+                  </g>
+                  {[-22, 22].map(x => (
+                      <g key={x} transform={`translate(${x}, -10) scale(1, 0.5)`}>
+                          <LegGroup fill={colorNear} isBack={true} />
+                      </g>
+                  ))}
+              </g>
+
+              {[-35, 35].map(x => (
+                  <g key={x} transform={`translate(${x}, -50)`}>
+                      <Muscle d={paths.shin} name="calves" fill={colorNear} />
+                      <Joint fill={colorNear} r={20} />
+                      <path d={paths.foot} fill={colorNear} transform="translate(0, 78)" />
+                  </g>
+              ))}
+          </g>
+      );
+  };
+
+  const renderSidePlank = (isBack: boolean) => {
+      // Everything hangs off one frame whose +y runs from the shoulder down the body to the feet
+      return (
+          <g transform="translate(-40, 150) scale(0.75)">
+              <line x1="-150" y1="50" x2="280" y2="50" stroke="#334155" strokeWidth="4" />
+              <g style={{ animation: 'vector-plank-hover 3s ease-in-out infinite' }}>
+                  <g transform="translate(-50, -30) rotate(-74.7)">
+                      {/* Support Arm: elbow under shoulder, forearm flat on the floor */}
+                      <g transform="rotate(74.7)">
+                          <ArmGroup fill={colorFar} />
+                          <Joint fill={colorFar} r={16} />
+                          <g transform="translate(0, 55)">
+                              <path d={paths.forearm} fill={colorFar} transform="rotate(90)" />
+                              <Joint fill={colorFar} r={14} />
+                          </g>
+                      </g>
+
+                      {/* Bottom Leg */}
+                      <g transform="translate(-10, 110)">
+                          <LegGroup fill={colorFar} isBack={isBack} />
+                          <g transform="translate(0, 75)">
+                              <Muscle d={paths.shin} name="calves" fill={colorFar} />
+                          </g>
+                      </g>
+
+                      <g transform="translate(0, 65)">
+                          <TorsoGroup fill={colorNear} detailColor={colorDetail} />
+                      </g>
+                      <path d={paths.head} fill={isBack ? colorHair : colorSkin} transform="translate(0, -10)" />
+
+                      {/* Top Leg */}
+                      <g transform="translate(0, 110)">
+                          <LegGroup fill={colorNear} isBack={isBack} />
+                          <Joint fill={colorNear} r={20} />
+                          <g transform="translate(0, 75)">
+                              <Muscle d={paths.shin} name="calves" fill={colorNear} />
+                              <Joint fill={colorNear} r={14} />
+                          </g>
+                      </g>
+
+                      {/* Top Arm reaching for the ceiling */}
+                      <g transform="rotate(-105.3)">
+                          <ArmGroup fill={colorNear} />
+                          <Joint fill={colorNear} r={16} />
+                          <g transform="translate(0, 55)">
+                              <path d={paths.forearm} fill={colorNear} />
+                              <Joint fill={colorNear} r={14} />
+                          </g>
+                      </g>
+                  </g>
+              </g>
+          </g>
+      );
+  };
+
+  const renderJumpingJack = (isSide: boolean, isBack: boolean) => {
+      if (isSide) {
+          // Side-on the arms sweep in the frontal plane, which projects to a flip through the shoulder
+          return (
+              <g transform="translate(0, 100)">
+                  <g style={{ animation: 'vector-jack-hop 1.5s ease-in-out infinite' }}>
+                      <g transform="translate(0, -100)">
+                          <TorsoGroup fill={colorNear} detailColor={colorDetail} />
+                      </g>
+                      <g>
+                          <LegGroup fill={colorNear} />
+                          <Joint fill={colorNear} r={20} />
+                          <g transform="translate(0, 75)">
+                              <Muscle d={paths.calf} name="calves" fill={colorNear} />
+                              <Joint fill={colorNear} r={14} />
+                          </g>
+                      </g>
+                      <path d={paths.head} fill={colorSkin} transform="translate(0, -175)" />
+                      <g transform="translate(0, -145)">
+                          <g style={{ animation: 'vector-jack-arm-side 1.5s ease-in-out infinite', transformOrigin: '0 0' }}>
+                              <ArmGroup fill={colorNear} />
+                              <Joint fill={colorNear} r={16} />
+                              <g transform="translate(0, 55)">
+                                  <path d={paths.forearm} fill={colorNear} />
+                                  <Joint fill={colorNear} r={14} />
+                              </g>
+                          </g>
+                      </g>
+                  </g>
+              </g>
+          );
+      }
+
+      return (
+          <g transform="translate(0, 100)">
+              <g style={{ animation: 'vector-jack-hop 1.5s ease-in-out infinite' }}>
+                  {(['left', 'right'] as const).map(side => (
+                      <g key={side} transform={`translate(${side === 'left' ? -25 : 25}, 0)`}>
+                          <g style={{ animation: `vector-jack-leg-${side} 1.5s ease-in-out infinite`, transformOrigin: '0 0' }}>
+                              <LegGroup fill={colorNear} isBack={isBack} />
+                              <Joint fill={colorNear} r={20} />
+                              <g transform="translate(0, 75)">
+                                  <Muscle d={paths.shin} name="calves" fill={colorNear} />
+                                  <Joint fill={colorNear} r={14} />
+                              </g>
+                          </g>
+                      </g>
+                  ))}
+
+                  <g transform="translate(0, -100)">
+                      <TorsoGroup fill={colorNear} detailColor={colorDetail} />
+                  </g>
+                  <path d={paths.head} fill={isBack ? colorHair : colorSkin} transform="translate(0, -175)" />
+
+                  {(['left', 'right'] as const).map(side => (
+                      <g key={side} transform={`translate(${side === 'left' ? -48 : 48}, -145)`}>
+                          <g style={{ animation: `vector-jack-arm-${side} 1.5s ease-in-out infinite`, transformOrigin: '0 0' }}>
+                              <ArmGroup fill={colorNear} />
+                              <Joint fill={colorNear} r={16} />
+                              <g transform="translate(0, 55)">
+                                  <path d={paths.forearm} fill={colorNear} />
+                                  <Joint fill={colorNear} r={14} />
+                              </g>
+                          </g>
+                      </g>
+                  ))}
+              </g>
+          </g>
+      );
+  };
+
+  // Custom exercises have no choreography, so they get a neutral standing
+  // figure that still highlights the muscles the definition targets
+  const renderStanding = (isBack: boolean) => (
+      <g transform="translate(0, 100)">
+          {[-25, 25].map(x => (
+              <g key={x} transform={`translate(${x}, 0)`}>
+                  <LegGroup fill={colorNear} isBack={isBack} />
+                  <Joint fill={colorNear} r={20} />
+                  <g transform="translate(0, 75)">
+                      <Muscle d={paths.shin} name="calves" fill={colorNear} />
+                      <Joint fill={colorNear} r={14} />
+                  </g>
+              </g>
+          ))}
+
+          <g transform="translate(0, -100)">
+              <TorsoGroup fill={colorNear} detailColor={colorDetail} />
+          </g>
+
+          <path d={paths.head} fill={isBack ? colorHair : colorSkin} transform="translate(0, -175)" />
+
+          {[-1, 1].map(side => (
+              <g key={side} transform={`translate(${48 * side}, -145) rotate(${-10 * side})`}>
+                  <ArmGroup fill={colorNear} />
+                  <Joint fill={colorNear} r={16} />
+                  <g transform="translate(0, 55)">
+                      <path d={paths.forearm} fill={colorNear} />
+                      <Joint fill={colorNear} r={14} />
+                  </g>
+              </g>
+          ))}
+      </g>
+  );
+
   const renderMannequin = () => {
       const isSide = view === 'SIDE';
       const isBack = view === 'BACK';
@@ -642,7 +1048,12 @@ export const ReferenceVisualizer: React.FC<Props> = ({ workoutType }) => {
           case WorkoutType.BICEP_CURL: return renderCurl(isSide, isBack);
           case WorkoutType.TRICEP_EXTENSION: return renderTricep(isSide, isBack);
           case WorkoutType.PLANK: return renderPlank(isSide);
-          default: return null;
+          case WorkoutType.DEADLIFT: return renderDeadlift(isSide, isBack);
+          case WorkoutType.OVERHEAD_PRESS: return renderPress(isSide, isBack);
+          case WorkoutType.GLUTE_BRIDGE: return renderBridge(isSide);
+          case WorkoutType.SIDE_PLANK: return renderSidePlank(isBack);
+          case WorkoutType.JUMPING_JACK: return renderJumpingJack(isSide, isBack);
+          default: return renderStanding(isBack);
       }
   };
 
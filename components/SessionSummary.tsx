@@ -0,0 +1,199 @@
+import React, { useMemo } from 'react';
+import { WorkoutSession, TrackingQuality } from '../types';
+import { exerciseRegistry } from '../services/exerciseRegistry';
+import { buildSessionReport } from '../utils/sessionStats';
+import { Trophy, X, AlertTriangle } from 'lucide-react';
+
+interface SessionSummaryProps {
+  session: WorkoutSession;
+  imbalanceThresholdPct?: number;
+  onClose: () => void;
+}
+
+const QUALITY_COLORS: Record<TrackingQuality, string> = {
+  GOOD: 'bg-cyan-500',
+  POOR: 'bg-amber-500',
+  LOST: 'bg-red-500'
+};
+
+// Offset from session start, e.g. "2:05"
+const formatOffset = (ms: number) => {
+  const total = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export const SessionSummary: React.FC<SessionSummaryProps> = ({ session, imbalanceThresholdPct, onClose }) => {
+  const report = useMemo(() => buildSessionReport(session, undefined, imbalanceThresholdPct), [session, imbalanceThresholdPct]);
+  const workoutName = exerciseRegistry.get(session.workout)?.name ?? session.workout;
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-lg max-h-full overflow-y-auto bg-slate-900 border border-slate-700 rounded-3xl shadow-2xl p-6 space-y-6">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-full bg-emerald-500/20 text-emerald-400">
+              <Trophy size={20} />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">Session Summary</h2>
+              <p className="text-xs text-slate-500">{workoutName} • {formatOffset(report.durationMs)}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-200">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Headline Numbers */}
+        <div className="grid grid-cols-2 gap-3">
+          {report.hold ? (
+            <>
+              <div className="bg-slate-800/50 rounded-xl p-4">
+                <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Valid Hold</div>
+                <div className="text-3xl font-bold font-mono text-white">{Math.round(report.hold.validMs / 1000)}s</div>
+              </div>
+              <div className="bg-slate-800/50 rounded-xl p-4">
+                <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Longest Clean</div>
+                <div className="text-3xl font-bold font-mono text-white">{Math.round(report.hold.longestCleanMs / 1000)}s</div>
+                <div className="text-[10px] font-mono text-slate-500">{report.hold.breaks} breaks</div>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="bg-slate-800/50 rounded-xl p-4">
+                <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Total Reps</div>
+                <div className="text-3xl font-bold font-mono text-white">{report.totalReps}</div>
+              </div>
+              <div className="bg-slate-800/50 rounded-xl p-4">
+                <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Sets</div>
+                <div className="text-3xl font-bold font-mono text-white">{report.sets.length}</div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Reps per Set */}
+        {report.sets.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Reps per Set</h3>
+            {report.sets.map(set => (
+              <div key={set.index} className="flex justify-between text-sm font-mono text-slate-300">
+                <span>Set {set.index}</span>
+                <span>{set.reps} reps • TUT {(set.timeUnderTensionMs / 1000).toFixed(0)}s</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Hold per Set */}
+        {report.holds.length > 1 && (
+          <div className="space-y-2">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Hold per Set</h3>
+            {report.holds.map((hold, i) => (
+              <div key={i} className="flex justify-between text-sm font-mono text-slate-300">
+                <span>Set {i + 1}</span>
+                <span>{Math.round(hold.validMs / 1000)}s / {Math.round(hold.targetMs / 1000)}s • {hold.breaks} breaks</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Left vs Right */}
+        {report.symmetry && (
+          <div className="space-y-2">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Left vs Right</h3>
+            <div className="grid grid-cols-3 gap-y-1 text-sm font-mono text-slate-300">
+              <span className="text-slate-500" />
+              <span className="text-right text-[10px] uppercase text-slate-500">Left</span>
+              <span className="text-right text-[10px] uppercase text-slate-500">Right</span>
+              <span className="text-slate-400">Reps</span>
+              <span className="text-right">{report.symmetry.left.reps}</span>
+              <span className="text-right">{report.symmetry.right.reps}</span>
+              <span className="text-slate-400">Avg range</span>
+              <span className="text-right">{report.symmetry.left.avgRangeOfMotion}°</span>
+              <span className="text-right">{report.symmetry.right.avgRangeOfMotion}°</span>
+              <span className="text-slate-400">Avg lowering</span>
+              <span className="text-right">{(report.symmetry.left.avgEccentricMs / 1000).toFixed(1)}s</span>
+              <span className="text-right">{(report.symmetry.right.avgEccentricMs / 1000).toFixed(1)}s</span>
+            </div>
+            {report.symmetry.imbalances.length > 0 ? (
+              report.symmetry.imbalances.map(text => (
+                <div key={text} className="flex items-center gap-2 text-sm text-amber-300">
+                  <AlertTriangle size={12} className="shrink-0" /> {text}
+                </div>
+              ))
+            ) : (
+              <div className="text-[10px] font-mono text-slate-500">Balanced within {report.symmetry.thresholdPct}%</div>
+            )}
+          </div>
+        )}
+
+        {/* Coach Assessment */}
+        {report.coach && (
+          <div className="space-y-2">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Coach Assessment</h3>
+            {report.coach.reps > 0 && (
+              <div className="flex justify-between text-sm font-mono text-slate-300">
+                <span>{report.coach.reps} reps graded</span>
+                <span>
+                  <span className="text-emerald-400">{report.coach.repQuality.good} good</span>
+                  {' • '}<span className="text-amber-400">{report.coach.repQuality.fair} fair</span>
+                  {' • '}<span className="text-red-400">{report.coach.repQuality.poor} poor</span>
+                </span>
+              </div>
+            )}
+            {report.coach.avgFormScore !== null && (
+              <div className="flex justify-between text-sm font-mono text-slate-300">
+                <span>Avg form score</span>
+                <span>{report.coach.avgFormScore}/100</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Most Frequent Cues */}
+        {report.topCues.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Most Frequent Cues</h3>
+            {report.topCues.map(cue => (
+              <div key={cue.text} className="flex justify-between gap-4 text-sm">
+                <span className="text-slate-300 truncate">{cue.text}</span>
+                <span className="font-mono text-slate-500">×{cue.count}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Tracking Quality */}
+        <div className="space-y-2">
+          <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Tracking Quality</h3>
+          <div className="flex h-3 rounded-full overflow-hidden bg-slate-800">
+            {(Object.keys(QUALITY_COLORS) as TrackingQuality[]).map(quality => (
+              <div key={quality} className={QUALITY_COLORS[quality]} style={{ width: `${report.trackingShare[quality] * 100}%` }} />
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] font-mono text-slate-500">
+            {(Object.keys(QUALITY_COLORS) as TrackingQuality[]).map(quality => (
+              <span key={quality}>{quality} {Math.round(report.trackingShare[quality] * 100)}%</span>
+            ))}
+          </div>
+        </div>
+
+        {/* Safety Cues */}
+        {report.safetyCues.length > 0 && (
+          <div className="space-y-2 p-4 rounded-xl bg-red-500/10 border border-red-500/20">
+            <h3 className="text-xs font-semibold text-red-400 uppercase tracking-wider flex items-center gap-2">
+              <AlertTriangle size={14} /> Safety Warnings
+            </h3>
+            {report.safetyCues.map((cue, i) => (
+              <div key={i} className="flex gap-3 text-sm">
+                <span className="font-mono text-red-400/80">{formatOffset(cue.timestamp - session.startTime)}</span>
+                <span className="text-red-100">{cue.text}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
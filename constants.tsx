@@ -1,41 +1,452 @@
 import React from 'react';
-import { WorkoutType, WorkoutDef } from './types';
+import { WorkoutType, WorkoutDef, FormRule, LandmarkRef, RuleMetric, RuleScale, Axis, BodySegment, MuscleGroup, BodyOrientation, TelemetryField } from './types';
+import { LANDMARK as L } from './utils/poseUtils';
+
+// --- FORM RULE BUILDERS ---
+// Thresholds are multiplied by their scale (body size, shoulder width, ...) at evaluation time
+const angle = (a: LandmarkRef, b: LandmarkRef, c: LandmarkRef): RuleMetric => ({ type: 'angle', points: [a, b, c] });
+const dist = (from: LandmarkRef, to: LandmarkRef, axis: Axis): RuleMetric => ({ type: 'distance', from, to, axis });
+const rel = (from: LandmarkRef, to: LandmarkRef, axis: 'x' | 'y' | 'z'): RuleMetric => ({ type: 'relative-position', from, to, axis });
+const STABILITY: RuleMetric = { type: 'stability' };
+const JOINT_SPEED: RuleMetric = { type: 'joint-speed' };
+const field = (key: string, metric: RuleMetric, scale?: RuleScale): TelemetryField => ({ key, metric, scale });
+
+const HIPS = [L.LEFT_HIP, L.RIGHT_HIP];
+const SHOULDERS = [L.LEFT_SHOULDER, L.RIGHT_SHOULDER];
+const ANKLES = [L.LEFT_ANKLE, L.RIGHT_ANKLE];
+const KNEES = [L.LEFT_KNEE, L.RIGHT_KNEE];
+const WRISTS = [L.LEFT_WRIST, L.RIGHT_WRIST];
+const EARS = [L.LEFT_EAR, L.RIGHT_EAR];
+
+// Shoulders forward of the hip-knee line: the torso is hinged over
+const isHinged = { metric: angle(SHOULDERS, HIPS, KNEES), op: 'lt', value: 140 } as const;
+
+// --- TELEMETRY ---
+// Joint angles streamed to the coach for both sides
+const bothSides = (name: string, left: [LandmarkRef, LandmarkRef, LandmarkRef], right: [LandmarkRef, LandmarkRef, LandmarkRef]) => [
+  field(`${name}L`, angle(...left)),
+  field(`${name}R`, angle(...right))
+];
+const KNEE_ANGLES = bothSides('knee', [L.LEFT_HIP, L.LEFT_KNEE, L.LEFT_ANKLE], [L.RIGHT_HIP, L.RIGHT_KNEE, L.RIGHT_ANKLE]);
+const ELBOW_ANGLES = bothSides('elbow', [L.LEFT_SHOULDER, L.LEFT_ELBOW, L.LEFT_WRIST], [L.RIGHT_SHOULDER, L.RIGHT_ELBOW, L.RIGHT_WRIST]);
+const HIP_ANGLES = bothSides('hip', [L.LEFT_SHOULDER, L.LEFT_HIP, L.LEFT_KNEE], [L.RIGHT_SHOULDER, L.RIGHT_HIP, L.RIGHT_KNEE]);
+
+// Left-right spreads read from the front or back; hinge and sag angles read in profile
+const FACING: BodyOrientation[] = ['FRONT', 'THREE_QUARTER', 'BACK'];
+const PROFILE: BodyOrientation[] = ['SIDE', 'THREE_QUARTER'];
+
+// The working arm is whichever elbow is raised higher
+const tricepRules = (side: 'Left' | 'Right'): FormRule[] => {
+  const [shoulder, elbow, wrist, otherElbow] = side === 'Left'
+    ? [L.LEFT_SHOULDER, L.LEFT_ELBOW, L.LEFT_WRIST, L.RIGHT_ELBOW]
+    : [L.RIGHT_SHOULDER, L.RIGHT_ELBOW, L.RIGHT_WRIST, L.LEFT_ELBOW];
+  const isWorking = { metric: rel(elbow, otherElbow, 'y'), op: 'lt', value: 0 } as const;
+  const isStill = { metric: STABILITY, op: 'lt', value: 0.001 } as const;
+  const id = side.toLowerCase();
+  return [
+    { id: `raise-elbow-${id}`, cue: 'Raise Elbow High', priority: 50, requireVisible: [elbow, wrist],
+      conditions: [isWorking, { metric: rel(elbow, shoulder, 'y'), op: 'gt', value: 0 }] },
+    { id: `elbow-to-ear-${id}`, cue: 'Elbow closer to ear', priority: 40, requireVisible: [elbow, wrist], views: FACING,
+      conditions: [isWorking, { metric: dist(elbow, shoulder, 'x'), op: 'gt', value: 1.4, scale: 'shoulderWidth' }] },
+    { id: `full-range-${id}`, cue: 'Full Range needed', priority: 30, requireVisible: [elbow, wrist],
+      conditions: [isWorking, isStill, { metric: angle(shoulder, elbow, wrist), op: 'gt', value: 70 }, { metric: angle(shoulder, elbow, wrist), op: 'lt', value: 140 }] },
+    { id: `extend-up-${id}`, cue: 'Extend Up', priority: 30, requireVisible: [elbow, wrist],
+      conditions: [isWorking, isStill, { metric: angle(shoulder, elbow, wrist), op: 'lt', value: 60 }] },
+    { id: `lower-behind-head-${id}`, cue: 'Lower Behind Head', priority: 30, requireVisible: [elbow, wrist],
+      conditions: [isWorking, isStill, { metric: angle(shoulder, elbow, wrist), op: 'gt', value: 150 }] }
+  ];
+};
+
+// Each arm is judged on its own so one drifting wrist still gets a cue
+const pressRules = (side: 'Left' | 'Right'): FormRule[] => {
+  const [shoulder, elbow, wrist] = side === 'Left'
+    ? [L.LEFT_SHOULDER, L.LEFT_ELBOW, L.LEFT_WRIST]
+    : [L.RIGHT_SHOULDER, L.RIGHT_ELBOW, L.RIGHT_WRIST];
+  const isOverhead = { metric: rel(wrist, L.NOSE, 'y'), op: 'lt', value: 0 } as const;
+  // The hips stay still through every press, so stalling is judged by the elbows
+  const isStalled = { metric: JOINT_SPEED, op: 'lt', value: 20 } as const;
+  const id = side.toLowerCase();
+  return [
+    { id: `stack-wrist-${id}`, cue: 'Stack Wrists Over Elbows', priority: 20, requireVisible: [elbow, wrist],
+      conditions: [{ metric: dist(wrist, elbow, 'x'), op: 'gt', value: 0.6, scale: 'shoulderWidth' }] },
+    { id: `lock-out-${id}`, cue: 'Lock Out Overhead', priority: 10, requireVisible: [elbow, wrist],
+      conditions: [isOverhead, isStalled, { metric: angle(shoulder, elbow, wrist), op: 'lt', value: 150 }] }
+  ];
+};
+
+export const BODY_SEGMENTS: BodySegment[] = ['torso', 'upperArm', 'forearm', 'thigh', 'calf'];
+export const MUSCLE_GROUPS: MuscleGroup[] = ['pecs', 'abs', 'delts', 'biceps', 'triceps', 'glutes', 'quads', 'hamstrings', 'calves'];
 
 export const WORKOUTS: Record<WorkoutType, WorkoutDef> = {
   [WorkoutType.SQUAT]: {
     id: WorkoutType.SQUAT,
     name: 'Bodyweight Squat',
     description: 'Keep feet shoulder-width apart, keep back straight, lower until thighs are parallel.',
-    tips: ['Keep chest up', 'Weight on heels', 'Knees tracking over toes']
+    tips: ['Keep chest up', 'Weight on heels', 'Knees tracking over toes'],
+    targetSegments: ['thigh', 'calf', 'torso'],
+    targetMuscles: ['quads', 'glutes', 'hamstrings'],
+    preferredViews: ['FRONT', 'THREE_QUARTER'],
+    repPattern: {
+      joints: [[L.LEFT_HIP, L.LEFT_KNEE, L.LEFT_ANKLE], [L.RIGHT_HIP, L.RIGHT_KNEE, L.RIGHT_ANKLE]],
+      aggregate: 'avg',
+      openAngle: 160,
+      closedAngle: 100,
+      eccentric: 'CLOSING',
+      labels: { OPEN: 'Standing', CLOSING: 'Descending', CLOSED: 'Bottom', OPENING: 'Ascending' },
+      symmetry: { mode: 'bilateral' }
+    },
+    tempo: { lowering: 3, bottom: 1, lifting: 1 },
+    telemetry: [
+      ...KNEE_ANGLES,
+      field('hip', angle(SHOULDERS, HIPS, KNEES)),
+      // Knee spread relative to foot spread; below ~0.75 the knees are caving
+      field('kneeGap', dist(L.LEFT_KNEE, L.RIGHT_KNEE, 'x'), { from: L.LEFT_ANKLE, to: L.RIGHT_ANKLE, axis: 'x' })
+    ],
+    rules: [
+      { id: 'knees-out', cue: 'Push Knees Out!', priority: 20, views: FACING, conditions: [
+        { metric: dist(L.LEFT_ANKLE, L.RIGHT_ANKLE, 'x'), op: 'gt', value: 0.2, scale: 'body' },
+        { metric: dist(L.LEFT_KNEE, L.RIGHT_KNEE, 'x'), op: 'lt', value: 0.75, scale: { from: L.LEFT_ANKLE, to: L.RIGHT_ANKLE, axis: 'x' } }
+      ] },
+      { id: 'knees-behind-toes-left', cue: 'Keep Knees Behind Toes', priority: 10, conditions: [
+        { metric: rel(L.LEFT_KNEE, L.LEFT_ANKLE, 'z'), op: 'lt', value: -0.6, scale: 'body' }
+      ] },
+      { id: 'knees-behind-toes-right', cue: 'Keep Knees Behind Toes', priority: 10, conditions: [
+        { metric: rel(L.RIGHT_KNEE, L.RIGHT_ANKLE, 'z'), op: 'lt', value: -0.6, scale: 'body' }
+      ] }
+    ]
   },
   [WorkoutType.PUSHUP]: {
     id: WorkoutType.PUSHUP,
     name: 'Push Up',
     description: 'Hands shoulder-width, body in a straight line, lower chest to floor.',
-    tips: ['Core tight', 'Elbows at 45 degrees', 'Full range of motion']
+    tips: ['Core tight', 'Elbows at 45 degrees', 'Full range of motion'],
+    targetSegments: ['upperArm', 'torso'],
+    targetMuscles: ['pecs', 'triceps', 'delts'],
+    preferredViews: PROFILE,
+    repPattern: {
+      joints: [[L.LEFT_SHOULDER, L.LEFT_ELBOW, L.LEFT_WRIST], [L.RIGHT_SHOULDER, L.RIGHT_ELBOW, L.RIGHT_WRIST]],
+      aggregate: 'avg',
+      openAngle: 150,
+      closedAngle: 95,
+      eccentric: 'CLOSING',
+      labels: { OPEN: 'Top', CLOSING: 'Lowering', CLOSED: 'Bottom', OPENING: 'Pushing' },
+      symmetry: { mode: 'bilateral' }
+    },
+    tempo: { lowering: 2, bottom: 1, lifting: 1 },
+    telemetry: [...ELBOW_ANGLES, field('bodyLine', angle(SHOULDERS, HIPS, ANKLES))],
+    rules: [
+      { id: 'hip-sag', cue: 'Lift Your Hips!', priority: 10, views: PROFILE, conditions: [
+        { metric: rel(L.LEFT_HIP, L.LEFT_SHOULDER, 'y'), op: 'gt', value: 0.3, scale: 'body' },
+        { metric: rel(L.LEFT_HIP, L.LEFT_HEEL, 'y'), op: 'gt', value: 0.3, scale: 'body' }
+      ] }
+    ]
   },
   [WorkoutType.PLANK]: {
     id: WorkoutType.PLANK,
     name: 'Plank',
     description: 'Hold a straight body position supporting weight on forearms and toes.',
-    tips: ['Don\'t let hips sag', 'Keep neck neutral', 'Squeeze glutes']
+    tips: ['Don\'t let hips sag', 'Keep neck neutral', 'Squeeze glutes'],
+    targetSegments: ['torso', 'upperArm', 'thigh'],
+    targetMuscles: ['abs', 'delts', 'quads'],
+    preferredViews: PROFILE,
+    hold: {
+      targetSeconds: 60,
+      posture: [
+        // Body roughly horizontal: shoulders-to-ankles spread is mostly sideways
+        { metric: dist(SHOULDERS, ANKLES, 'y'), op: 'lt', value: 0.5, scale: { from: SHOULDERS, to: ANKLES, axis: 'x' } }
+      ],
+      breakRules: ['hip-sag', 'hip-pike']
+    },
+    telemetry: [
+      field('bodyLine', angle(SHOULDERS, HIPS, ANKLES)),
+      // Positive when the hips sit below the ankles, in body lengths
+      field('hipDrop', rel(HIPS, ANKLES, 'y'), 'body')
+    ],
+    rules: [
+      { id: 'hip-sag', cue: 'Raise Hips!', priority: 30, views: PROFILE, conditions: [
+        { metric: rel(HIPS, ANKLES, 'y'), op: 'gt', value: 0.3, scale: 'body' }
+      ] },
+      { id: 'hip-pike', cue: 'Lower Hips', priority: 20, views: PROFILE, conditions: [
+        { metric: rel(HIPS, SHOULDERS, 'y'), op: 'lt', value: -0.15, scale: 'body' }
+      ] },
+      { id: 'hold-steady', cue: 'Hold Steady!', priority: 10, conditions: [
+        { metric: STABILITY, op: 'gt', value: 0.002 }
+      ] }
+    ]
   },
   [WorkoutType.LUNGE]: {
     id: WorkoutType.LUNGE,
     name: 'Forward Lunge',
     description: 'Step forward with one leg, lower hips until both knees are bent at 90 degrees.',
-    tips: ['Keep torso upright', 'Don\'t let knee pass toe', 'Push back to start']
+    tips: ['Keep torso upright', 'Don\'t let knee pass toe', 'Push back to start'],
+    targetSegments: ['thigh', 'calf'],
+    targetMuscles: ['quads', 'glutes', 'hamstrings', 'calves'],
+    preferredViews: PROFILE,
+    repPattern: {
+      joints: [[L.LEFT_HIP, L.LEFT_KNEE, L.LEFT_ANKLE], [L.RIGHT_HIP, L.RIGHT_KNEE, L.RIGHT_ANKLE]],
+      aggregate: 'min',
+      openAngle: 155,
+      closedAngle: 105,
+      eccentric: 'CLOSING',
+      labels: { OPEN: 'Standing', CLOSING: 'Lowering', CLOSED: 'Bottom', OPENING: 'Driving Up' },
+      // Both knees bend in a lunge; the front leg is the one whose hip flexes
+      symmetry: { mode: 'unilateral', joints: [[L.LEFT_SHOULDER, L.LEFT_HIP, L.LEFT_KNEE], [L.RIGHT_SHOULDER, L.RIGHT_HIP, L.RIGHT_KNEE]] }
+    },
+    tempo: { lowering: 2, bottom: 1, lifting: 1 },
+    telemetry: [...KNEE_ANGLES, ...HIP_ANGLES],
+    rules: [
+      { id: 'balance', cue: 'Balance & Control', priority: 10, conditions: [
+        { metric: STABILITY, op: 'gt', value: 0.003 }
+      ] }
+    ]
   },
   [WorkoutType.BICEP_CURL]: {
     id: WorkoutType.BICEP_CURL,
     name: 'Bicep Curl',
     description: 'Stand straight with dumbbells, curl weights towards shoulders.',
-    tips: ['Elbows tucked in', 'Control the descent', 'No swinging']
+    tips: ['Elbows tucked in', 'Control the descent', 'No swinging'],
+    targetSegments: ['upperArm'],
+    targetMuscles: ['biceps'],
+    preferredViews: ['FRONT', 'THREE_QUARTER'],
+    repPattern: {
+      joints: [[L.LEFT_SHOULDER, L.LEFT_ELBOW, L.LEFT_WRIST], [L.RIGHT_SHOULDER, L.RIGHT_ELBOW, L.RIGHT_WRIST]],
+      aggregate: 'min',
+      openAngle: 150,
+      closedAngle: 60,
+      eccentric: 'OPENING',
+      labels: { OPEN: 'Extended', CLOSING: 'Curling', CLOSED: 'Flexed', OPENING: 'Lowering' },
+      symmetry: { mode: 'unilateral' }
+    },
+    tempo: { lowering: 3, bottom: 0, lifting: 1, lockout: 1 },
+    telemetry: [
+      ...ELBOW_ANGLES,
+      // Elbow drifting away from the side, in shoulder widths
+      field('elbowDriftL', dist(L.LEFT_ELBOW, L.LEFT_SHOULDER, 'x'), 'shoulderWidth'),
+      field('elbowDriftR', dist(L.RIGHT_ELBOW, L.RIGHT_SHOULDER, 'x'), 'shoulderWidth')
+    ],
+    rules: [
+      { id: 'tuck-elbow-left', cue: 'Tuck Left Elbow', priority: 40, requireVisible: [L.LEFT_WRIST], views: FACING, conditions: [
+        { metric: rel(L.LEFT_WRIST, L.LEFT_HIP, 'y'), op: 'lt', value: 0 },
+        { metric: dist(L.LEFT_ELBOW, L.LEFT_SHOULDER, 'x'), op: 'gt', value: 0.9, scale: 'shoulderWidth' }
+      ] },
+      { id: 'curl-fully-left', cue: 'Curl up fully', priority: 30, requireVisible: [L.LEFT_WRIST], conditions: [
+        { metric: rel(L.LEFT_WRIST, L.LEFT_HIP, 'y'), op: 'lt', value: 0 },
+        { metric: angle(L.LEFT_SHOULDER, L.LEFT_ELBOW, L.LEFT_WRIST), op: 'gt', value: 160 },
+        { metric: STABILITY, op: 'lt', value: 0.001 }
+      ] },
+      { id: 'curl-fully-right', cue: 'Curl up fully', priority: 30, requireVisible: [L.RIGHT_WRIST], conditions: [
+        { metric: rel(L.RIGHT_WRIST, L.RIGHT_HIP, 'y'), op: 'lt', value: 0 },
+        { metric: angle(L.RIGHT_SHOULDER, L.RIGHT_ELBOW, L.RIGHT_WRIST), op: 'gt', value: 160 },
+        { metric: STABILITY, op: 'lt', value: 0.001 }
+      ] },
+      { id: 'tuck-elbow-right', cue: 'Tuck Right Elbow', priority: 20, requireVisible: [L.RIGHT_WRIST], views: FACING, conditions: [
+        { metric: rel(L.RIGHT_WRIST, L.RIGHT_HIP, 'y'), op: 'lt', value: 0 },
+        { metric: dist(L.RIGHT_ELBOW, L.RIGHT_SHOULDER, 'x'), op: 'gt', value: 0.9, scale: 'shoulderWidth' }
+      ] },
+      { id: 'torso-still', cue: 'Keep Torso Still', priority: 10, conditions: [
+        { metric: STABILITY, op: 'gt', value: 0.0025 }
+      ] }
+    ]
   },
   [WorkoutType.TRICEP_EXTENSION]: {
     id: WorkoutType.TRICEP_EXTENSION,
     name: 'Single Arm Overhead Tricep Extension',
     description: 'Hold weight overhead, lower behind head by bending elbow, then extend back up.',
-    tips: ['Keep elbow close to ear', 'Only move forearm', 'Full extension at top']
+    tips: ['Keep elbow close to ear', 'Only move forearm', 'Full extension at top'],
+    targetSegments: ['upperArm'],
+    targetMuscles: ['triceps'],
+    preferredViews: ['FRONT', 'BACK'],
+    repPattern: {
+      joints: [[L.LEFT_SHOULDER, L.LEFT_ELBOW, L.LEFT_WRIST], [L.RIGHT_SHOULDER, L.RIGHT_ELBOW, L.RIGHT_WRIST]],
+      aggregate: 'min',
+      openAngle: 150,
+      closedAngle: 70,
+      eccentric: 'CLOSING',
+      labels: { OPEN: 'Locked Out', CLOSING: 'Lowering', CLOSED: 'Stretched', OPENING: 'Extending' },
+      symmetry: { mode: 'unilateral' }
+    },
+    tempo: { lowering: 3, bottom: 1, lifting: 1 },
+    telemetry: ELBOW_ANGLES,
+    rules: [...tricepRules('Left'), ...tricepRules('Right')]
+  },
+  [WorkoutType.DEADLIFT]: {
+    id: WorkoutType.DEADLIFT,
+    name: 'Romanian Deadlift',
+    description: 'Soft knees, push hips back and lower the weight along your legs, then drive hips forward to stand.',
+    tips: ['Flat back, chest proud', 'Hips back, not down', 'Keep the weight close'],
+    targetSegments: ['torso', 'thigh'],
+    targetMuscles: ['hamstrings', 'glutes'],
+    preferredViews: PROFILE,
+    repPattern: {
+      joints: [[L.LEFT_SHOULDER, L.LEFT_HIP, L.LEFT_KNEE], [L.RIGHT_SHOULDER, L.RIGHT_HIP, L.RIGHT_KNEE]],
+      aggregate: 'avg',
+      openAngle: 160,
+      closedAngle: 110,
+      eccentric: 'CLOSING',
+      labels: { OPEN: 'Standing', CLOSING: 'Hinging', CLOSED: 'Bottom', OPENING: 'Driving Hips' },
+      symmetry: { mode: 'bilateral' }
+    },
+    tempo: { lowering: 2, bottom: 0, lifting: 1 },
+    telemetry: [
+      field('hinge', angle(SHOULDERS, HIPS, KNEES)),
+      field('knee', angle(HIPS, KNEES, ANKLES)),
+      // Drops below ~140 as the upper back rounds
+      field('upperBack', angle(EARS, SHOULDERS, HIPS)),
+      field('weightDrift', dist(WRISTS, ANKLES, 'x'), 'body')
+    ],
+    rules: [
+      // The head drops out of line with the torso when the upper back rounds
+      { id: 'neutral-spine', cue: 'Keep Your Back Flat!', priority: 30, views: PROFILE, conditions: [
+        isHinged,
+        { metric: angle(EARS, SHOULDERS, HIPS), op: 'lt', value: 140 }
+      ] },
+      { id: 'hips-back', cue: 'Push Hips Back', priority: 20, views: PROFILE, conditions: [
+        isHinged,
+        { metric: angle(HIPS, KNEES, ANKLES), op: 'lt', value: 130 }
+      ] },
+      { id: 'weight-close', cue: 'Keep the Weight Close', priority: 10, requireVisible: [L.LEFT_WRIST, L.RIGHT_WRIST], views: ['SIDE'], conditions: [
+        isHinged,
+        { metric: dist(WRISTS, ANKLES, 'x'), op: 'gt', value: 0.6, scale: 'body' }
+      ] }
+    ]
+  },
+  [WorkoutType.OVERHEAD_PRESS]: {
+    id: WorkoutType.OVERHEAD_PRESS,
+    name: 'Overhead Press',
+    description: 'Start with the weights at shoulder height and press straight up until the arms lock out overhead.',
+    tips: ['Ribs down, glutes tight', 'Wrists stacked over elbows', 'Finish with biceps by your ears'],
+    targetSegments: ['upperArm', 'forearm'],
+    targetMuscles: ['delts', 'triceps'],
+    preferredViews: ['FRONT', 'THREE_QUARTER', 'SIDE'],
+    repPattern: {
+      joints: [[L.LEFT_SHOULDER, L.LEFT_ELBOW, L.LEFT_WRIST], [L.RIGHT_SHOULDER, L.RIGHT_ELBOW, L.RIGHT_WRIST]],
+      aggregate: 'avg',
+      openAngle: 155,
+      closedAngle: 90,
+      eccentric: 'CLOSING',
+      // Each set starts from the rack
+      start: 'CLOSED',
+      labels: { OPEN: 'Locked Out', CLOSING: 'Lowering', CLOSED: 'Rack', OPENING: 'Pressing' },
+      symmetry: { mode: 'bilateral' }
+    },
+    tempo: { lowering: 2, bottom: 0, lifting: 1 },
+    telemetry: [...ELBOW_ANGLES, field('torso', angle(SHOULDERS, HIPS, KNEES))],
+    rules: [
+      // Leaning back to finish the press opens the shoulder-hip-knee line
+      { id: 'lumbar-arch', cue: 'Ribs Down, Don\'t Arch!', priority: 30, views: PROFILE, conditions: [
+        { metric: rel(WRISTS, SHOULDERS, 'y'), op: 'lt', value: 0 },
+        { metric: angle(SHOULDERS, HIPS, KNEES), op: 'lt', value: 160 }
+      ] },
+      ...pressRules('Left'),
+      ...pressRules('Right')
+    ]
+  },
+  [WorkoutType.GLUTE_BRIDGE]: {
+    id: WorkoutType.GLUTE_BRIDGE,
+    name: 'Glute Bridge',
+    description: 'Lie on your back with knees bent, drive through the heels and lift the hips until shoulders, hips and knees line up.',
+    tips: ['Drive through your heels', 'Squeeze glutes at the top', 'Don\'t overarch the lower back'],
+    targetSegments: ['thigh', 'torso'],
+    targetMuscles: ['glutes', 'hamstrings', 'abs'],
+    preferredViews: PROFILE,
+    repPattern: {
+      joints: [[L.LEFT_SHOULDER, L.LEFT_HIP, L.LEFT_KNEE], [L.RIGHT_SHOULDER, L.RIGHT_HIP, L.RIGHT_KNEE]],
+      aggregate: 'avg',
+      openAngle: 165,
+      closedAngle: 135,
+      eccentric: 'CLOSING',
+      // Each set starts with the hips on the floor
+      start: 'CLOSED',
+      labels: { OPEN: 'Bridged', CLOSING: 'Lowering', CLOSED: 'Floor', OPENING: 'Lifting' },
+      symmetry: { mode: 'bilateral' }
+    },
+    tempo: { lowering: 2, bottom: 0, lifting: 1, lockout: 1 },
+    telemetry: [
+      ...HIP_ANGLES,
+      // Negative when the hips rise above the knees, in body lengths
+      field('hipHeight', rel(HIPS, KNEES, 'y'), 'body')
+    ],
+    rules: [
+      // Hips above the knees means the lower back is doing the lifting
+      { id: 'overarch', cue: 'Ribs Down at the Top', priority: 30, views: PROFILE, conditions: [
+        { metric: rel(HIPS, KNEES, 'y'), op: 'lt', value: -0.15, scale: 'body' }
+      ] },
+      { id: 'hip-extension', cue: 'Drive Hips Higher', priority: 20, views: PROFILE, conditions: [
+        { metric: STABILITY, op: 'lt', value: 0.001 },
+        { metric: angle(SHOULDERS, HIPS, KNEES), op: 'gt', value: 145 },
+        { metric: angle(SHOULDERS, HIPS, KNEES), op: 'lt', value: 160 }
+      ] },
+      { id: 'knees-out', cue: 'Keep Knees Apart', priority: 10, views: FACING, conditions: [
+        { metric: dist(L.LEFT_ANKLE, L.RIGHT_ANKLE, 'x'), op: 'gt', value: 0.2, scale: 'body' },
+        { metric: dist(L.LEFT_KNEE, L.RIGHT_KNEE, 'x'), op: 'lt', value: 0.75, scale: { from: L.LEFT_ANKLE, to: L.RIGHT_ANKLE, axis: 'x' } }
+      ] }
+    ]
+  },
+  [WorkoutType.SIDE_PLANK]: {
+    id: WorkoutType.SIDE_PLANK,
+    name: 'Side Plank',
+    description: 'Lie on your side, prop up on one forearm and lift the hips so the body forms a straight line.',
+    tips: ['Elbow under shoulder', 'Stack hips and feet', 'Push the floor away'],
+    targetSegments: ['torso', 'upperArm'],
+    targetMuscles: ['abs', 'delts', 'glutes'],
+    preferredViews: ['FRONT', 'BACK'],
+    hold: {
+      targetSeconds: 30,
+      posture: [
+        // Body roughly horizontal, and facing the camera with shoulders stacked
+        { metric: dist(SHOULDERS, ANKLES, 'y'), op: 'lt', value: 0.6, scale: { from: SHOULDERS, to: ANKLES, axis: 'x' } },
+        { metric: dist(L.LEFT_SHOULDER, L.RIGHT_SHOULDER, 'y'), op: 'gt', value: 1, scale: { from: L.LEFT_SHOULDER, to: L.RIGHT_SHOULDER, axis: 'x' } }
+      ],
+      breakRules: ['hip-sag']
+    },
+    telemetry: [
+      field('bodyLine', angle(SHOULDERS, HIPS, ANKLES)),
+      field('hipDrop', rel(HIPS, ANKLES, 'y'), { from: SHOULDERS, to: ANKLES, axis: 'x' })
+    ],
+    rules: [
+      // The shoulders are propped up, so hips below the feet is a clear sag
+      { id: 'hip-sag', cue: 'Lift Your Hips!', priority: 30, views: FACING, conditions: [
+        { metric: rel(HIPS, ANKLES, 'y'), op: 'gt', value: 0.05, scale: { from: SHOULDERS, to: ANKLES, axis: 'x' } }
+      ] },
+      { id: 'hip-pike', cue: 'Straighten Your Body', priority: 20, views: FACING, conditions: [
+        { metric: rel(HIPS, SHOULDERS, 'y'), op: 'lt', value: 0 }
+      ] },
+      { id: 'hold-steady', cue: 'Hold Steady!', priority: 10, conditions: [
+        { metric: STABILITY, op: 'gt', value: 0.002 }
+      ] }
+    ]
+  },
+  [WorkoutType.JUMPING_JACK]: {
+    id: WorkoutType.JUMPING_JACK,
+    name: 'Jumping Jack',
+    description: 'Jump the feet out while sweeping the arms overhead, then jump back to standing with arms at your sides.',
+    tips: ['Land softly on the balls of your feet', 'Arms all the way overhead', 'Keep a steady rhythm'],
+    targetSegments: ['upperArm', 'thigh', 'calf'],
+    targetMuscles: ['delts', 'calves', 'glutes'],
+    preferredViews: ['FRONT', 'BACK'],
+    // Ears stand in for "straight up" from the shoulder, so arms down is the open position
+    repPattern: {
+      joints: [[L.LEFT_ELBOW, L.LEFT_SHOULDER, L.LEFT_EAR], [L.RIGHT_ELBOW, L.RIGHT_SHOULDER, L.RIGHT_EAR]],
+      aggregate: 'avg',
+      openAngle: 140,
+      closedAngle: 70,
+      eccentric: 'OPENING',
+      labels: { OPEN: 'Arms Down', CLOSING: 'Jumping Out', CLOSED: 'Arms Overhead', OPENING: 'Jumping In' },
+      symmetry: { mode: 'bilateral' }
+    },
+    telemetry: [
+      ...bothSides('arm', [L.LEFT_ELBOW, L.LEFT_SHOULDER, L.LEFT_EAR], [L.RIGHT_ELBOW, L.RIGHT_SHOULDER, L.RIGHT_EAR]),
+      field('feetWidth', dist(L.LEFT_ANKLE, L.RIGHT_ANKLE, 'x'), 'shoulderWidth')
+    ],
+    rules: [
+      { id: 'feet-wide', cue: 'Jump Feet Wider', priority: 20, views: FACING, conditions: [
+        { metric: rel(WRISTS, L.NOSE, 'y'), op: 'lt', value: 0 },
+        { metric: dist(L.LEFT_ANKLE, L.RIGHT_ANKLE, 'x'), op: 'lt', value: 1.2, scale: 'shoulderWidth' }
+      ] },
+      { id: 'arms-up', cue: 'Arms All the Way Up', priority: 10, views: FACING, conditions: [
+        { metric: dist(L.LEFT_ANKLE, L.RIGHT_ANKLE, 'x'), op: 'gt', value: 1.8, scale: 'shoulderWidth' },
+        { metric: rel(WRISTS, SHOULDERS, 'y'), op: 'gt', value: 0 }
+      ] }
+    ]
   }
 };
@@ -0,0 +1,45 @@
+// Puts everything pose tracking needs under public/mediapipe so the app never
+// reaches for a CDN at runtime: the WASM fileset is copied from the installed
+// @mediapipe/tasks-vision (so it always matches the JS), and the pose models
+// are downloaded once. Runs after npm install; safe to re-run.
+import { copyFile, mkdir, readdir, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const target = join(root, 'public', 'mediapipe');
+const wasmSource = join(root, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+
+const MODELS = ['lite', 'full', 'heavy'];
+const modelUrl = (variant) =>
+  `https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_${variant}/float16/1/pose_landmarker_${variant}.task`;
+
+const exists = (path) => stat(path).then(() => true, () => false);
+
+const copyWasm = async () => {
+  await mkdir(join(target, 'wasm'), { recursive: true });
+  for (const file of await readdir(wasmSource)) {
+    await copyFile(join(wasmSource, file), join(target, 'wasm', file));
+  }
+  console.log('mediapipe: copied WASM fileset');
+};
+
+const downloadModel = async (variant) => {
+  const file = join(target, 'models', `pose_landmarker_${variant}.task`);
+  if (await exists(file)) return;
+  await mkdir(dirname(file), { recursive: true });
+  const response = await fetch(modelUrl(variant), { signal: AbortSignal.timeout(120000) });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  await writeFile(file, Buffer.from(await response.arrayBuffer()));
+  console.log(`mediapipe: downloaded ${variant} pose model`);
+};
+
+await copyWasm();
+for (const variant of MODELS) {
+  try {
+    await downloadModel(variant);
+  } catch (e) {
+    // Don't fail the install; the app reports the missing model when it is picked
+    console.warn(`mediapipe: could not download the ${variant} pose model (${e.message}). Re-run "npm run fetch-assets" when online.`);
+  }
+}
@@ -0,0 +1,216 @@
+// Writes the synthetic pose recordings in fixtures/recordings. Each one is a
+// hand-built skeleton moved through a timeline of reps (or a hold), in the same
+// format the Record button saves, so `npm test` can check rep counting and form
+// cues for exercises nobody has filmed yet.
+//
+//   node scripts/generate-fixtures.mjs                     regenerate every fixture
+//   node scripts/generate-fixtures.mjs squat-front-clean   regenerate only these
+//
+// Add a fixture by adding an entry to FIXTURES, then its expected reps and cues
+// to fixtures/recordings/expected.json.
+import { writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'recordings');
+
+const FPS = 15;
+// Landmark jitter, so nothing is perfectly still
+const NOISE = 0.0008;
+
+const round4 = v => Math.round(v * 10000) / 10000;
+const deg = d => d * Math.PI / 180;
+const lerp = (a, b, t) => a + (b - a) * t;
+const smooth = x => x <= 0 ? 0 : x >= 1 ? 1 : x * x * (3 - 2 * x);
+const add = (p, dx, dy, dz = 0) => [p[0] + dx, p[1] + dy, (p[2] ?? 0) + dz];
+
+// Segments of [seconds, from, to] eased one after another into a progress s(t)
+const timeline = (segments) => ({
+  seconds: segments.reduce((sum, [d]) => sum + d, 0),
+  at: (t) => {
+    let start = 0;
+    for (const [d, from, to] of segments) {
+      if (t < start + d) return lerp(from, to, smooth((t - start) / d));
+      start += d;
+    }
+    return segments[segments.length - 1][2];
+  }
+});
+
+// n reps from s = 0 to 1 and back, after a still start
+const reps = (n, { start = 1, rise, top, fall, bottom }) => {
+  const segments = [[start, 0, 0]];
+  for (let i = 0; i < n; i++) segments.push([rise, 0, 1], [top, 1, 1], [fall, 1, 0], [bottom, 0, 0]);
+  return timeline(segments);
+};
+
+// All 33 landmarks from the main joints; the face, hands and feet hang off them.
+// `facing` is the direction the face points in the image, [0, 0] towards the camera.
+const skeleton = (j, facing) => {
+  const lm = new Array(33);
+  const [fx, fy] = facing;
+  const profile = fx !== 0 || fy !== 0;
+  const eyeL = add(j.head, fx * 0.02 + (profile ? 0 : 0.015), -0.015, j.lz ?? 0);
+  const eyeR = add(j.head, fx * 0.02 - (profile ? 0 : 0.015), -0.015, j.rz ?? 0);
+  lm[0] = add(j.head, fx * 0.03, fy * 0.03);
+  lm[1] = lm[2] = lm[3] = eyeL;
+  lm[4] = lm[5] = lm[6] = eyeR;
+  lm[7] = j.lEar ?? add(j.head, profile ? -fx * 0.01 : 0.035, -0.005, j.lz ?? 0);
+  lm[8] = j.rEar ?? add(j.head, profile ? -fx * 0.01 : -0.035, -0.005, j.rz ?? 0);
+  lm[9] = add(j.head, fx * 0.025 + (fx ? 0 : 0.012), 0.025, j.lz ?? 0);
+  lm[10] = add(j.head, fx * 0.025 - (fx ? 0 : 0.012), 0.025, j.rz ?? 0);
+  lm[11] = j.lSh; lm[12] = j.rSh; lm[13] = j.lEl; lm[14] = j.rEl; lm[15] = j.lWr; lm[16] = j.rWr;
+  const hand = (wr, el) => add(wr, (wr[0] - el[0]) * 0.15, (wr[1] - el[1]) * 0.15);
+  lm[17] = lm[19] = lm[21] = hand(j.lWr, j.lEl);
+  lm[18] = lm[20] = lm[22] = hand(j.rWr, j.rEl);
+  lm[23] = j.lHip; lm[24] = j.rHip; lm[25] = j.lKn; lm[26] = j.rKn; lm[27] = j.lAn; lm[28] = j.rAn;
+  const [footX, footY] = j.foot ?? [0.01, 0.02];
+  lm[29] = add(j.lAn, -footX * 0.5, footY); lm[30] = add(j.rAn, -footX * 0.5, footY);
+  lm[31] = add(j.lAn, footX * 2, footY * 1.3); lm[32] = add(j.rAn, footX * 2, footY * 1.3);
+  return lm;
+};
+
+// Side-on left/right pair: the near (left) side a little in front in x and z
+const pair = (p, dx = 0.01, dz = 0.08) => [add(p, dx, 0, -dz), add(p, -dx, 0, dz)];
+
+// Standing, facing the camera; squats move everything above the ankles down
+const standingFront = ({ drop = 0, lKnX = 0.575, rKnX = 0.425, lAnX = 0.58, rAnX = 0.42, foot }) => skeleton({
+  head: [0.5, 0.16 + drop], lSh: [0.59, 0.28 + drop], rSh: [0.41, 0.28 + drop],
+  lEl: [0.6, 0.38 + drop], rEl: [0.4, 0.38 + drop], lWr: [0.6, 0.48 + drop], rWr: [0.4, 0.48 + drop],
+  lHip: [0.57, 0.55 + drop], rHip: [0.43, 0.55 + drop],
+  lKn: [lKnX, 0.725 + drop * 0.69], rKn: [rKnX, 0.725 + drop * 0.69],
+  lAn: [lAnX, 0.9], rAn: [rAnX, 0.9], foot
+}, [0, 0]);
+
+const FIXTURES = {
+  'squat-front-clean': {
+    workout: 'Squat',
+    timeline: reps(5, { rise: 3, top: 1, fall: 1.5, bottom: 0.7 }),
+    // Knees push out over the toes on the way down
+    pose: s => standingFront({ drop: 0.16 * s, lKnX: 0.575 + 0.1 * s, rKnX: 0.425 - 0.1 * s })
+  },
+  'squat-front-knees-cave': {
+    workout: 'Squat',
+    timeline: reps(3, { rise: 3, top: 1, fall: 1.5, bottom: 0.7 }),
+    // Wide stance, knees meeting in the middle at the bottom
+    pose: s => standingFront({ drop: 0.16 * s, lKnX: 0.6 - 0.1 * s, rKnX: 0.4 + 0.1 * s, lAnX: 0.63, rAnX: 0.37 })
+  },
+  // Side-on, facing image right, hands sliding down the thighs
+  'deadlift-side-clean': {
+    workout: 'Deadlift',
+    timeline: reps(5, { rise: 2.2, top: 0.3, fall: 1.2, bottom: 1.0 }),
+    pose: s => {
+      const torso = deg(lerp(3, 65, s)), thigh = deg(lerp(3, 30, s)), shin = deg(lerp(3, 5, s));
+      const an = [0.5, 0.9];
+      const kn = [an[0] + 0.175 * Math.sin(shin), an[1] - 0.175 * Math.cos(shin)];
+      const hip = [kn[0] - 0.175 * Math.sin(thigh), kn[1] - 0.175 * Math.cos(thigh)];
+      const sh = [hip[0] + 0.27 * Math.sin(torso), hip[1] - 0.27 * Math.cos(torso)];
+      const ear = [sh[0] + 0.07 * Math.sin(torso), sh[1] - 0.07 * Math.cos(torso)];
+      const wr = [lerp(hip[0] + 0.02, kn[0], s), lerp(hip[1] + 0.08, kn[1] - 0.03, s)];
+      const el = [(sh[0] + wr[0]) / 2 - 0.01, (sh[1] + wr[1]) / 2];
+      const [lSh, rSh] = pair(sh), [lEl, rEl] = pair(el), [lWr, rWr] = pair(wr);
+      const [lHip, rHip] = pair(hip), [lKn, rKn] = pair(kn), [lAn, rAn] = pair(an), [lEar, rEar] = pair(ear);
+      return skeleton({ head: [ear[0] + 0.01, ear[1]], lSh, rSh, lEl, rEl, lWr, rWr, lHip, rHip, lKn, rKn, lAn, rAn,
+        lEar, rEar, lz: -0.08, rz: 0.08, foot: [0.03, 0.01] }, [1, 0]);
+    }
+  },
+  // Facing the camera, each press starting from the rack
+  'overhead-press-front': {
+    workout: 'Overhead Press',
+    timeline: reps(5, { rise: 1.0, top: 0.6, fall: 2.2, bottom: 1.0 }),
+    pose: s => {
+      // Upper arm from 30 degrees below the shoulder line to nearly vertical; forearms stay upright
+      const raise = deg(lerp(-30, 82, s));
+      const arm = (sh, out) => {
+        const el = [sh[0] + out * 0.12 * Math.cos(raise), sh[1] - 0.12 * Math.sin(raise)];
+        return [el, [el[0], el[1] - 0.11]];
+      };
+      const lSh = [0.59, 0.28], rSh = [0.41, 0.28];
+      const [lEl, lWr] = arm(lSh, 1), [rEl, rWr] = arm(rSh, -1);
+      return skeleton({ head: [0.5, 0.17], lSh, rSh, lEl, rEl, lWr, rWr,
+        lHip: [0.57, 0.55], rHip: [0.43, 0.55], lKn: [0.575, 0.725], rKn: [0.425, 0.725], lAn: [0.58, 0.9], rAn: [0.42, 0.9] }, [0, 0]);
+    }
+  },
+  // Side-on with the head at image left, each bridge starting with the hips on the floor
+  'glute-bridge-side-clean': {
+    workout: 'Glute Bridge',
+    timeline: reps(5, { rise: 1.0, top: 1.0, fall: 2.2, bottom: 1.0 }),
+    pose: s => {
+      const sh = [0.25, 0.78], kn = [0.6, 0.6], an = [0.7, 0.8];
+      // Thigh angle below the knee, from the hips on the floor to just past the shoulder-knee line
+      const thigh = lerp(Math.asin(0.19 / 0.227), Math.atan2(0.18, 0.35) + deg(1), s);
+      const hip = [kn[0] - 0.227 * Math.cos(thigh), kn[1] + 0.227 * Math.sin(thigh)];
+      const [lSh, rSh] = pair(sh), [lEl, rEl] = pair([0.33, 0.8]), [lWr, rWr] = pair([0.42, 0.8]);
+      const [lHip, rHip] = pair(hip), [lKn, rKn] = pair(kn), [lAn, rAn] = pair(an), [lEar, rEar] = pair([0.19, 0.765]);
+      return skeleton({ head: [0.17, 0.77], lSh, rSh, lEl, rEl, lWr, rWr, lHip, rHip, lKn, rKn, lAn, rAn,
+        lEar, rEar, lz: -0.08, rz: 0.08, foot: [0.02, 0.005] }, [-0.3, -1]);
+    }
+  },
+  // On the right forearm facing the camera: lift from the floor at 2s, sag from 13s to 16s
+  'side-plank-front-sag': {
+    workout: 'Side Plank',
+    timeline: { seconds: 23, at: t => t },
+    pose: t => {
+      const up = smooth((t - 2) / 2.5);
+      const sag = smooth((t - 13) / 0.6) * (1 - smooth((t - 16) / 0.6));
+      const an = [0.78, 0.76];
+      const shY = lerp(0.7, 0.5, up);
+      const straightHipY = lerp(shY, an[1], 0.46);
+      const hip = [0.52, lerp(lerp(0.8, straightHipY, up), 0.8, sag)];
+      const kn = [(hip[0] + an[0]) / 2, (hip[1] + an[1]) / 2];
+      return skeleton({ head: [0.2, shY - 0.03],
+        lSh: [0.305, shY - 0.06], rSh: [0.295, shY + 0.06],
+        lEl: [0.38, shY - 0.02], rEl: [0.3, 0.76], lWr: [0.46, hip[1] - 0.06], rWr: [0.4, 0.77],
+        lHip: [hip[0] + 0.005, hip[1] - 0.05], rHip: [hip[0] - 0.005, hip[1] + 0.05],
+        lKn: [kn[0], kn[1] - 0.03], rKn: [kn[0], kn[1] + 0.03], lAn: [an[0], an[1] - 0.02], rAn: [an[0], an[1] + 0.02],
+        lEar: [0.2, shY - 0.065], rEar: [0.2, shY + 0.005], foot: [0.01, 0] }, [0, 0]);
+    }
+  },
+  // Facing the camera, feet and arms in time
+  'jumping-jack-front-clean': {
+    workout: 'Jumping Jack',
+    timeline: reps(10, { rise: 0.4, top: 0.1, fall: 0.4, bottom: 0.2 }),
+    pose: s => {
+      const bounce = -0.02 * Math.sin(Math.PI * s);
+      const lSh = [0.59, 0.28 + bounce], rSh = [0.41, 0.28 + bounce];
+      // Arms from hanging down, out to the side and up over the head
+      const a = deg(lerp(15, 165, s));
+      const arm = (sh, out) => {
+        const dir = [out * Math.sin(a), Math.cos(a)];
+        const el = [sh[0] + dir[0] * 0.12, sh[1] + dir[1] * 0.12];
+        return [el, [el[0] + dir[0] * 0.11, el[1] + dir[1] * 0.11]];
+      };
+      const [lEl, lWr] = arm(lSh, 1), [rEl, rWr] = arm(rSh, -1);
+      const half = lerp(0.07, 0.19, s);
+      const hipY = 0.55 + bounce, knY = 0.725 + bounce, anY = 0.9 + bounce;
+      return skeleton({ head: [0.5, 0.17 + bounce], lSh, rSh, lEl, rEl, lWr, rWr,
+        lHip: [0.57, hipY], rHip: [0.43, hipY], lKn: [0.5 + (0.07 + half) / 2, knY], rKn: [0.5 - (0.07 + half) / 2, knY],
+        lAn: [0.5 + half, anY], rAn: [0.5 - half, anY] }, [0, 0]);
+    }
+  }
+};
+
+const record = ({ workout, timeline, pose }) => {
+  // Seeded per recording, so regenerating one fixture leaves the others as they are
+  let seed = 7;
+  const jitter = () => {
+    seed = (seed * 16807) % 2147483647;
+    return (seed / 2147483647 - 0.5) * NOISE;
+  };
+  const frames = [];
+  // A second of standing still after the last rep
+  const count = Math.round((timeline.seconds + 1) * FPS);
+  for (let i = 0; i <= count; i++) {
+    const t = i / FPS;
+    const lm = pose(timeline.at(t));
+    frames.push({ t: Math.round(t * 1000), lm: lm.flatMap(([x, y, z]) => [round4(x + jitter()), round4(y + jitter()), round4(z ?? 0), 0.99]) });
+  }
+  return { format: 'formfit-pose', version: 1, workout, recordedAt: '2026-10-19T00:00:00.000Z', videoWidth: 1280, videoHeight: 720, frames };
+};
+
+const names = process.argv.slice(2);
+for (const name of names.length > 0 ? names : Object.keys(FIXTURES)) {
+  if (!FIXTURES[name]) throw new Error(`No fixture named "${name}" (expected one of ${Object.keys(FIXTURES).join(', ')})`);
+  await writeFile(join(fixtures, `${name}.json`), JSON.stringify(record(FIXTURES[name])));
+  console.log(`wrote ${name}.json`);
+}
@@ -0,0 +1,65 @@
+// Replays pose recordings through the same analysis the app runs (smoothing,
+// rep counting, form rules) with no browser or camera, and checks the reps and
+// cues (and hold time, for holds) against fixtures/recordings/expected.json. Vite loads the TypeScript
+// sources, so the replay can't drift from the app.
+//
+//   npm test                                         check every fixture
+//   node scripts/replay-recordings.mjs my-rec.json   print what a recording produces
+//
+// New fixtures are recordings saved with the app's Record button or built by
+// scripts/generate-fixtures.mjs, plus an entry in expected.json.
+import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const fixtures = join(root, 'fixtures', 'recordings');
+
+const server = await createServer({
+  root,
+  configFile: join(root, 'vite.config.ts'),
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  // Only the analysis modules are loaded, so skip scanning the app for dependencies
+  optimizeDeps: { noDiscovery: true, include: [] }
+});
+
+const summarize = (result) => ({
+  reps: result.reps.length,
+  cues: [...new Set(result.cues.map(cue => cue.text))].sort(),
+  ...(result.hold ? { holdSeconds: Math.round(result.hold.validMs / 1000) } : {})
+});
+
+let failed = 0;
+try {
+  const { runRecording } = await server.ssrLoadModule('/services/poseReplay.ts');
+  const { parsePoseRecording } = await server.ssrLoadModule('/services/poseRecorder.ts');
+  const replay = async (path) => summarize(runRecording(parsePoseRecording(await readFile(path, 'utf8'))));
+
+  const paths = process.argv.slice(2);
+  if (paths.length > 0) {
+    for (const path of paths) console.log(path, JSON.stringify(await replay(path)));
+  } else {
+    const expected = JSON.parse(await readFile(join(fixtures, 'expected.json'), 'utf8'));
+    for (const [file, want] of Object.entries(expected)) {
+      const got = await replay(join(fixtures, file));
+      const wantCues = [...want.cues].sort();
+      const problems = [];
+      if (got.reps !== want.reps) problems.push(`expected ${want.reps} reps, counted ${got.reps}`);
+      if (want.holdSeconds !== undefined && got.holdSeconds !== want.holdSeconds) {
+        problems.push(`expected ${want.holdSeconds}s of valid hold, timed ${got.holdSeconds ?? 0}s`);
+      }
+      if (JSON.stringify(got.cues) !== JSON.stringify(wantCues)) {
+        problems.push(`expected cues ${JSON.stringify(wantCues)}, got ${JSON.stringify(got.cues)}`);
+      }
+      if (problems.length > 0) failed++;
+      console.log(`${problems.length > 0 ? 'FAIL' : 'ok  '} ${file}${problems.map(p => `\n     ${p}`).join('')}`);
+    }
+    console.log(failed > 0 ? `${failed} recording(s) failed` : 'All recordings match');
+  }
+} finally {
+  await server.close();
+}
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,65 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { BodyProportions, CalibratedJoint } from '../types';
+import { RuleContext } from '../utils/formRules';
+import { measureProportions } from '../utils/calibration';
+import { MAX_FRAME_GAP_MS } from '../utils/poseUtils';
+
+// Time the pose has to be held, counting only usable frames
+const CAPTURE_MS = 3000;
+// Frames moving more than this are skipped
+const MAX_STABILITY = 0.002;
+
+export interface CalibrationProgress {
+  // 0..1 share of CAPTURE_MS collected so far
+  progress: number;
+  status: string;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Collects a few seconds of a still, front-facing T-pose and reduces it to
+// the user's body proportions. Medians keep a stray bad frame out.
+export class BodyCalibrator {
+  private samples: BodyProportions[] = [];
+  private capturedMs = 0;
+  private lastTime: number | null = null;
+
+  get done() {
+    return this.capturedMs >= CAPTURE_MS;
+  }
+
+  update(landmarks: NormalizedLandmark[], ctx: RuleContext, timestamp: number): CalibrationProgress {
+    const dt = this.lastTime !== null ? timestamp - this.lastTime : 0;
+    this.lastTime = timestamp;
+
+    const sample = measureProportions(landmarks);
+    let status = 'Hold the T-Pose';
+    if (!sample) status = 'Step Back Until Your Whole Body Is Visible';
+    else if (ctx.orientation !== 'FRONT') status = 'Face the Camera';
+    else if (ctx.stabilityScore > MAX_STABILITY) status = 'Hold Still';
+    else {
+      this.samples.push(sample);
+      if (dt <= MAX_FRAME_GAP_MS) this.capturedMs += dt;
+    }
+    return { progress: Math.min(1, this.capturedMs / CAPTURE_MS), status };
+  }
+
+  result(): BodyProportions {
+    const of = (pick: (p: BodyProportions) => number) => median(this.samples.map(pick));
+    const angle = (joint: CalibratedJoint) => Math.round(of(p => p.baselineAngles[joint]));
+    return {
+      shoulderWidth: of(p => p.shoulderWidth),
+      segments: {
+        upperArm: of(p => p.segments.upperArm),
+        forearm: of(p => p.segments.forearm),
+        thigh: of(p => p.segments.thigh),
+        calf: of(p => p.segments.calf)
+      },
+      baselineAngles: { elbow: angle('elbow'), hip: angle('hip'), knee: angle('knee') }
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { BodyCalibration } from '../types';
+import { createValidator } from '../utils/validation';
+
+const STORAGE_KEY = 'formfit.calibrations';
+const ACTIVE_USER_KEY = 'formfit.activeUser';
+
+export const DEFAULT_USER = 'Me';
+
+const { isObject } = createValidator('Invalid calibration');
+
+const isRatio = (value: unknown) => typeof value === 'number' && value > 0 && Number.isFinite(value);
+
+const isValidCalibration = (cal: unknown): cal is BodyCalibration =>
+  isObject(cal) &&
+  typeof cal.user === 'string' &&
+  typeof cal.capturedAt === 'number' &&
+  isRatio(cal.shoulderWidth) &&
+  isObject(cal.segments) && ['upperArm', 'forearm', 'thigh', 'calf'].every(limb => isRatio(cal.segments[limb])) &&
+  isObject(cal.baselineAngles) && ['elbow', 'hip', 'knee'].every(joint => isRatio(cal.baselineAngles[joint]));
+
+// A blank name means the default user, so saves and lookups agree on the key
+const toUserName = (name: string) => name.trim() || DEFAULT_USER;
+
+// One calibration per user name, kept in localStorage next to programs
+export class CalibrationStore {
+  get activeUser(): string {
+    return toUserName(localStorage.getItem(ACTIVE_USER_KEY) ?? '');
+  }
+
+  set activeUser(user: string) {
+    localStorage.setItem(ACTIVE_USER_KEY, toUserName(user));
+  }
+
+  get(user: string): BodyCalibration | null {
+    return this.read()[toUserName(user)] ?? null;
+  }
+
+  save(calibration: BodyCalibration) {
+    this.write({ ...this.read(), [calibration.user]: calibration });
+  }
+
+  delete(user: string) {
+    const all = this.read();
+    delete all[toUserName(user)];
+    this.write(all);
+  }
+
+  private read(): Record<string, BodyCalibration> {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+      if (typeof parsed !== 'object' || parsed === null) return {};
+      // A calibration missing a ratio would scale every rule threshold to NaN
+      return Object.fromEntries(Object.entries(parsed).filter(([, cal]) => isValidCalibration(cal))) as Record<string, BodyCalibration>;
+    } catch {
+      return {};
+    }
+  }
+
+  private write(all: Record<string, BodyCalibration>) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  }
+}
+
+export const calibrationStore = new CalibrationStore();
@@ -0,0 +1,169 @@
+import { ExerciseId, MotionHint, PoseTelemetry } from '../types';
+import { CoachAudio, CoachCallbacks, CoachError, CoachFrame, CoachProvider, FrameStats } from './coachProvider';
+
+// Backoff doubles from the first delay up to the cap
+const FIRST_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+const MAX_ATTEMPTS = 6;
+// A connection has to stay up this long before the backoff starts over, so one
+// that opens and drops straight away keeps backing off
+const STABLE_AFTER_MS = 10000;
+
+interface CoachConnectionConfig extends CoachCallbacks {
+  // Builds the provider once; it is reconnected in place after a drop
+  create: (callbacks: CoachCallbacks) => CoachProvider;
+  onReconnecting?: (attempt: number, delayMs: number, error: CoachError | null) => void;
+  onReconnected?: () => void;
+}
+
+// Keeps a coach connected for the whole session. Drops are retried with
+// exponential backoff; the provider resumes its session where it can, and is
+// given the current exercise, the latest telemetry and any context that
+// couldn't be sent while it was down either way. Only a
+// failed first connect, an error that retrying can't fix or running out of
+// attempts reaches onError/onDisconnect.
+export class CoachConnection implements CoachProvider {
+  private config: CoachConnectionConfig;
+  private provider: CoachProvider;
+  private workout: ExerciseId | null = null;
+  private video: HTMLVideoElement | null = null;
+  private opened = false;
+  private connected = false;
+  private stopped = false;
+  private attempt = 0;
+  private retryTimer: number | null = null;
+  private stableTimer: number | null = null;
+  private lastError: CoachError | null = null;
+  private lastTelemetry: PoseTelemetry | null = null;
+  // Only the latest context still matters once the connection is back
+  private pendingContext: string | null = null;
+
+  constructor(config: CoachConnectionConfig) {
+    this.config = config;
+    this.provider = config.create({
+      onTranscription: config.onTranscription,
+      onAudio: config.onAudio,
+      onEvent: config.onEvent,
+      onFrameStats: config.onFrameStats,
+      onConnect: () => this.handleConnect(),
+      onDisconnect: () => this.handleDisconnect(),
+      onError: (error) => { this.lastError = error; }
+    });
+  }
+
+  get frameStats(): FrameStats {
+    return this.provider.frameStats;
+  }
+
+  async connect(workout: ExerciseId, video: HTMLVideoElement) {
+    this.workout = workout;
+    this.video = video;
+    this.stopped = false;
+    await this.provider.connect(workout, video);
+  }
+
+  async disconnect() {
+    this.stopped = true;
+    this.connected = false;
+    if (this.retryTimer) window.clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.clearStableTimer();
+    this.pendingContext = null;
+    await this.provider.disconnect();
+  }
+
+  sendFrame(frame: CoachFrame) {
+    if (this.connected) this.provider.sendFrame(frame);
+  }
+
+  sendAudio(chunk: CoachAudio) {
+    if (this.connected) this.provider.sendAudio(chunk);
+  }
+
+  setMotion(motion: MotionHint) {
+    this.provider.setMotion(motion);
+  }
+
+  sendContext(text: string) {
+    if (this.connected) this.provider.sendContext(text);
+    else this.pendingContext = text;
+  }
+
+  sendTelemetry(sample: PoseTelemetry) {
+    this.lastTelemetry = sample;
+    if (this.connected) this.provider.sendTelemetry(sample);
+  }
+
+  // While reconnecting, the new connection starts on this exercise instead
+  setWorkout(workout: ExerciseId) {
+    this.workout = workout;
+    if (this.connected) this.provider.setWorkout(workout);
+  }
+
+  private handleConnect() {
+    this.connected = true;
+    this.lastError = null;
+    this.clearStableTimer();
+    this.stableTimer = window.setTimeout(() => {
+      this.stableTimer = null;
+      this.attempt = 0;
+    }, STABLE_AFTER_MS);
+    if (!this.opened) {
+      this.opened = true;
+      this.config.onConnect();
+    } else {
+      this.config.onReconnected?.();
+      this.provider.sendContext('The connection dropped for a moment and is back. Keep coaching from where the user is now.');
+      if (this.lastTelemetry) this.provider.sendTelemetry(this.lastTelemetry);
+    }
+    const context = this.pendingContext;
+    this.pendingContext = null;
+    if (context) this.provider.sendContext(context);
+  }
+
+  private handleDisconnect() {
+    if (this.stopped) return;
+    this.connected = false;
+    this.clearStableTimer();
+    const error = this.lastError;
+    if (!this.opened) {
+      this.giveUp(error ?? new CoachError('network', "Couldn't connect to the coach"));
+    } else if (error && !error.retryable) {
+      this.giveUp(error);
+    } else {
+      this.scheduleReconnect(error);
+    }
+  }
+
+  private scheduleReconnect(error: CoachError | null) {
+    this.attempt++;
+    if (this.attempt > MAX_ATTEMPTS) {
+      this.giveUp(error ?? new CoachError('network', 'Lost the connection to the coach'));
+      return;
+    }
+    const delayMs = Math.min(MAX_RETRY_MS, FIRST_RETRY_MS * 2 ** (this.attempt - 1));
+    this.config.onReconnecting?.(this.attempt, delayMs, error);
+    this.retryTimer = window.setTimeout(async () => {
+      this.retryTimer = null;
+      if (this.stopped || !this.workout || !this.video) return;
+      try {
+        await this.provider.connect(this.workout, this.video);
+      } catch (cause) {
+        this.lastError = new CoachError('network', 'Reconnecting to the coach failed', cause);
+        this.handleDisconnect();
+      }
+    }, delayMs);
+  }
+
+  private clearStableTimer() {
+    if (this.stableTimer) window.clearTimeout(this.stableTimer);
+    this.stableTimer = null;
+  }
+
+  private giveUp(error: CoachError) {
+    // The session is already failing; a teardown error on top of it is only logged
+    this.disconnect().catch(e => console.error("Failed to disconnect from the coach", e));
+    this.config.onError(error);
+    this.config.onDisconnect();
+  }
+}
@@ -0,0 +1,87 @@
+import { CoachReport, ExerciseId, MotionHint, PoseTelemetry } from '../types';
+
+export type CoachProviderId = 'gemini' | 'scripted';
+
+// `listens` when the coach hears the microphone and transcribes it itself;
+// `speaks` when it plays its own audio rather than only sending text
+export const COACH_PROVIDERS: Record<CoachProviderId, { label: string; detail: string; listens: boolean; speaks: boolean }> = {
+  gemini: { label: 'Coach Gemini', detail: 'Live video coaching, needs an API key and a connection', listens: true, speaks: true },
+  scripted: { label: 'Scripted Demo', detail: 'Canned cues from the exercise tips, works offline', listens: false, speaks: false }
+};
+
+export type CoachErrorKind = 'auth' | 'quota' | 'network' | 'server';
+
+// A coach connection failure. The original error or close event is kept as `cause`.
+export class CoachError extends Error {
+  readonly kind: CoachErrorKind;
+
+  constructor(kind: CoachErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'CoachError';
+    this.kind = kind;
+  }
+
+  // A bad API key won't fix itself; dropped connections, server hiccups and
+  // rate limits usually clear up
+  get retryable() {
+    return this.kind !== 'auth';
+  }
+}
+
+// A still of the camera or video, base64 encoded
+export interface CoachFrame {
+  data: string;
+  mimeType: string;
+}
+
+// 16 kHz mono PCM from the microphone, base64 encoded
+export interface CoachAudio {
+  data: string;
+  mimeType: string;
+}
+
+// Video frames sent to the coach so far this session
+export interface FrameStats {
+  frames: number;
+  // Encoded size as sent, so base64 rather than raw JPEG bytes
+  bytes: number;
+}
+
+// What the coach signals besides what it says
+export type CoachEvent =
+  | { type: 'turnComplete' }
+  | { type: 'interrupted' }
+  | { type: 'report'; report: CoachReport };
+
+export interface CoachCallbacks {
+  // 'user' for what the coach heard through the microphone
+  onTranscription: (text: string, role: 'user' | 'model') => void;
+  // True while the coach is speaking
+  onAudio?: (speaking: boolean) => void;
+  onEvent?: (event: CoachEvent) => void;
+  onFrameStats?: (stats: FrameStats) => void;
+  onConnect: () => void;
+  // The connection closed without disconnect() being called
+  onDisconnect: () => void;
+  // Reported before the onDisconnect it caused
+  onError: (error: CoachError) => void;
+}
+
+// A source of coaching for a session. Frames are streamed from the video once
+// connected; context is extra text the coach should take into account.
+// connect() may be called again after a drop to reconnect the same session.
+export interface CoachProvider {
+  connect(workout: ExerciseId, video: HTMLVideoElement): Promise<void>;
+  disconnect(): Promise<void>;
+  sendFrame(frame: CoachFrame): void;
+  // Microphone audio while it's on; coaches that don't listen ignore it
+  sendAudio(chunk: CoachAudio): void;
+  // Paces and crops the frames streamed from the video
+  setMotion(motion: MotionHint): void;
+  readonly frameStats: FrameStats;
+  sendContext(text: string): void;
+  // Measured pose from the on-device analysis, a few times a second at most
+  sendTelemetry(sample: PoseTelemetry): void;
+  // Switches the coaching context mid-session, e.g. to the next block of a program
+  setWorkout(workout: ExerciseId): void;
+}
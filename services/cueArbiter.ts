@@ -0,0 +1,163 @@
+import { CuePriority, CueSource, HudCue } from '../types';
+
+// Per priority: rank, how long a shown cue is guaranteed the screen before
+// something of equal or higher rank may replace it, how long it stays at most
+// (also how long it may wait its turn), and how soon the same text may show
+// again. Safety cues are never held back.
+const PRIORITIES: Record<CuePriority, { rank: number; minMs: number; maxMs: number; cooldownMs: number }> = {
+  critical: { rank: 3, minMs: 3000, maxMs: 6000, cooldownMs: 0 },
+  high: { rank: 2, minMs: 2000, maxMs: 5000, cooldownMs: 4000 },
+  normal: { rank: 1, minMs: 1500, maxMs: 3000, cooldownMs: 6000 },
+  low: { rank: 0, minMs: 800, maxMs: 1500, cooldownMs: 0 }
+};
+
+const rank = (cue: HudCue) => PRIORITIES[cue.priority].rank;
+
+const DEFAULT_PRIORITY: Record<CueSource, CuePriority> = {
+  safety: 'critical',
+  coach: 'high',
+  heuristic: 'normal',
+  rep: 'low',
+  system: 'normal'
+};
+
+const DEFAULT_LABEL: Record<CueSource, string> = {
+  safety: 'Safety',
+  coach: 'Coach',
+  heuristic: 'Form Correction',
+  rep: 'Rep Counter',
+  system: 'FormFit'
+};
+
+export interface CueInput {
+  text: string;
+  source: CueSource;
+  // Defaults by source: safety > coach > heuristic and system > rep
+  priority?: CuePriority;
+  label?: string;
+  // Cues sharing an id update each other in place, e.g. a coach sentence
+  // arriving word by word
+  id?: string;
+}
+
+interface Entry {
+  cue: HudCue;
+  id?: string;
+  // When it was pushed, or shown once on screen
+  at: number;
+  // While shown: replaceable after minUntil, gone at until
+  minUntil: number;
+  until: number;
+}
+
+interface CueArbiterConfig {
+  onChange: (cue: HudCue | null) => void;
+}
+
+// Decides the one cue on the HUD from everything that wants it: coach speech,
+// on-device form cues, reps, safety warnings and app messages. Higher priority
+// wins, each cue stays up long enough to be read, duplicates merge, and the
+// same text doesn't come back straight away. A critical cue takes the screen
+// immediately.
+export class CueArbiter {
+  private config: CueArbiterConfig;
+  private current: Entry | null = null;
+  private pending: Entry[] = [];
+  private lastShown = new Map<string, number>();
+  private timer: number | null = null;
+
+  constructor(config: CueArbiterConfig) {
+    this.config = config;
+  }
+
+  push(input: CueInput, now = Date.now()) {
+    const priority = input.priority ?? DEFAULT_PRIORITY[input.source];
+    const cue: HudCue = { text: input.text, source: input.source, priority, label: input.label ?? DEFAULT_LABEL[input.source] };
+    const current = this.current;
+
+    // An update to what's on screen, or the same words again: keep it up, raised
+    // to the more important of the two
+    if (current && ((input.id && current.id === input.id) || current.cue.text === cue.text)) {
+      const raised = rank(cue) >= rank(current.cue) ? cue : { ...current.cue, text: cue.text };
+      const escalated = rank(raised) > rank(current.cue);
+      this.current = {
+        ...current,
+        cue: raised,
+        minUntil: escalated ? now + PRIORITIES[priority].minMs : current.minUntil,
+        until: Math.max(current.until, now + PRIORITIES[raised.priority].maxMs)
+      };
+      this.lastShown.set(cue.text, now);
+      this.emit();
+      this.update(now);
+      return;
+    }
+
+    const lastShown = this.lastShown.get(cue.text);
+    if (lastShown !== undefined && now - lastShown < PRIORITIES[priority].cooldownMs) return;
+
+    this.pending = this.pending.filter(entry => !(input.id && entry.id === input.id) && entry.cue.text !== cue.text);
+    this.pending.push({ cue, id: input.id, at: now, minUntil: 0, until: 0 });
+    this.update(now);
+  }
+
+  // Clears the screen and the queue, and forgets cooldowns, e.g. between sessions
+  reset() {
+    if (this.timer) window.clearTimeout(this.timer);
+    this.timer = null;
+    this.pending = [];
+    this.lastShown.clear();
+    if (this.current) {
+      this.current = null;
+      this.emit();
+    }
+  }
+
+  private update(now: number) {
+    this.pending = this.pending.filter(entry => now - entry.at < PRIORITIES[entry.cue.priority].maxMs);
+    let changed = false;
+    if (this.current && now >= this.current.until) {
+      this.current = null;
+      changed = true;
+    }
+
+    // Most important first, then the newest
+    const next = this.pending.reduce<Entry | null>((best, entry) =>
+      !best || rank(entry.cue) > rank(best.cue) || (rank(entry.cue) === rank(best.cue) && entry.at >= best.at) ? entry : best, null);
+    if (next && this.canReplace(next, now)) {
+      const { minMs, maxMs } = PRIORITIES[next.cue.priority];
+      this.pending = this.pending.filter(entry => entry !== next);
+      this.current = { ...next, at: now, minUntil: now + minMs, until: now + maxMs };
+      this.lastShown.set(next.cue.text, now);
+      changed = true;
+    }
+
+    if (changed) this.emit();
+    this.schedule(now);
+  }
+
+  private canReplace(next: Entry, now: number) {
+    const current = this.current;
+    if (!current) return true;
+    if (next.cue.priority === 'critical' && current.cue.priority !== 'critical') return true;
+    // Lower priorities wait for the screen to clear
+    return rank(next.cue) >= rank(current.cue) && now >= current.minUntil;
+  }
+
+  // Wakes up for the next thing that can change: the current cue becoming
+  // replaceable or expiring, or a waiting cue going stale
+  private schedule(now: number) {
+    if (this.timer) window.clearTimeout(this.timer);
+    this.timer = null;
+    const times = this.pending.map(entry => entry.at + PRIORITIES[entry.cue.priority].maxMs);
+    if (this.current) {
+      times.push(this.current.until);
+      if (this.pending.length > 0) times.push(this.current.minUntil);
+    }
+    const wakeAt = Math.min(...times.filter(time => time > now));
+    if (Number.isFinite(wakeAt)) this.timer = window.setTimeout(() => this.update(Date.now()), wakeAt - now);
+  }
+
+  private emit() {
+    this.config.onChange(this.current ? this.current.cue : null);
+  }
+}
@@ -0,0 +1,101 @@
+// The same cue isn't repeated within this long
+const CUE_COOLDOWN_MS = 8000;
+// Breathing room after one spoken cue ends before the next starts
+const MIN_GAP_MS = 1500;
+// A held-back cue is dropped if it waits longer than this. A cue waiting on one
+// of our own counts from when that one ends, so it isn't lost behind a long line.
+const PENDING_MAX_AGE_MS = 2000;
+const SPEECH_RATE = 1.1;
+
+// Speaks on-device form cues with the browser's speech synthesis, so they're
+// heard without looking at the screen and without a network. A cue is always
+// finished before the next is said. Yields to the coach: nothing is said over
+// it, and a cue in progress is cut off when it starts talking.
+export class CueVoice {
+  private enabled = true;
+  private coachSpeaking = false;
+  private lastSaid = new Map<string, number>();
+  private lastSpokeAt = 0;
+  private current: SpeechSynthesisUtterance | null = null;
+  private pending: { text: string; at: number } | null = null;
+  private pendingTimer: number | null = null;
+
+  static get supported() {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    if (!enabled) this.stop();
+  }
+
+  speak(text: string) {
+    if (!this.enabled || !CueVoice.supported) return;
+    const now = Date.now();
+    if (now - (this.lastSaid.get(text) ?? -Infinity) < CUE_COOLDOWN_MS) return;
+    // Only the latest held-back cue is worth saying; it goes out once the
+    // current one ends
+    if (this.coachSpeaking || this.current) {
+      this.pending = { text, at: now };
+      return;
+    }
+    const wait = this.lastSpokeAt + MIN_GAP_MS - now;
+    if (wait > 0) {
+      this.pending = { text, at: now };
+      if (!this.pendingTimer) this.pendingTimer = window.setTimeout(() => this.flush(), wait);
+      return;
+    }
+    this.pending = null;
+    this.lastSaid.set(text, now);
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = SPEECH_RATE;
+    // Local voices keep working offline
+    const voice = speechSynthesis.getVoices().find(v => v.localService && v.lang.startsWith('en'));
+    if (voice) utterance.voice = voice;
+    else utterance.lang = 'en-US';
+    utterance.onend = utterance.onerror = () => {
+      // Already let go of by a cancel
+      if (this.current !== utterance) return;
+      this.current = null;
+      this.lastSpokeAt = Date.now();
+      if (this.pending) this.pending.at = Math.max(this.pending.at, this.lastSpokeAt);
+      if (this.pending && !this.pendingTimer) this.pendingTimer = window.setTimeout(() => this.flush(), MIN_GAP_MS);
+    };
+    this.current = utterance;
+    speechSynthesis.speak(utterance);
+  }
+
+  // Fed from the coach's onAudio
+  setCoachSpeaking(speaking: boolean) {
+    this.coachSpeaking = speaking;
+    if (speaking) {
+      this.cancelCurrent();
+      return;
+    }
+    this.flush();
+  }
+
+  // Silences the voice and forgets cooldowns, e.g. between sessions
+  stop() {
+    this.pending = null;
+    if (this.pendingTimer) window.clearTimeout(this.pendingTimer);
+    this.pendingTimer = null;
+    this.coachSpeaking = false;
+    this.lastSaid.clear();
+    this.cancelCurrent();
+  }
+
+  private cancelCurrent() {
+    this.current = null;
+    if (CueVoice.supported) speechSynthesis.cancel();
+  }
+
+  private flush() {
+    if (this.pendingTimer) window.clearTimeout(this.pendingTimer);
+    this.pendingTimer = null;
+    const pending = this.pending;
+    this.pending = null;
+    if (pending && Date.now() - pending.at < PENDING_MAX_AGE_MS) this.speak(pending.text);
+  }
+}
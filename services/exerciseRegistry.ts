@@ -0,0 +1,81 @@
+import { ExerciseId, WorkoutDef, WorkoutType } from '../types';
+import { WORKOUTS } from '../constants';
+import { CUSTOM_PREFIX, parseStoredExercise } from '../utils/exerciseDefinition';
+
+const STORAGE_KEY = 'formfit.exercises';
+
+export const isExerciseId = (value: unknown): value is ExerciseId =>
+  typeof value === 'string' && (Object.values(WorkoutType).includes(value as WorkoutType) || value.startsWith(CUSTOM_PREFIX));
+
+// Built-in workouts plus user-defined exercises. Everything that needs an
+// exercise definition (analysis, coaching prompt, visualizers) looks it up here.
+export class ExerciseRegistry {
+  private custom = new Map<ExerciseId, WorkoutDef>();
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.load();
+  }
+
+  get(id: ExerciseId): WorkoutDef | undefined {
+    return WORKOUTS[id as WorkoutType] ?? this.custom.get(id);
+  }
+
+  has(id: ExerciseId) {
+    return !!this.get(id);
+  }
+
+  // Built-ins first, then custom exercises in the order they were added
+  list(): WorkoutDef[] {
+    return [...Object.values(WORKOUTS), ...this.custom.values()];
+  }
+
+  // Adds or replaces custom exercises, keyed by id
+  add(defs: WorkoutDef[]) {
+    defs.forEach(def => this.custom.set(def.id, def));
+    this.persist();
+  }
+
+  remove(id: ExerciseId) {
+    if (this.custom.delete(id)) this.persist();
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private load() {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+      if (!Array.isArray(stored)) return;
+      for (const value of stored) {
+        try {
+          const def = parseStoredExercise(value);
+          this.custom.set(def.id, def);
+        } catch (e) {
+          console.warn("Dropped a stored custom exercise", e);
+        }
+      }
+    } catch (e) {
+      console.error("Failed to load custom exercises", e);
+    }
+  }
+
+  private persist() {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify([...this.custom.values()]));
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const exerciseRegistry = new ExerciseRegistry();
+
+// For the analysis pipeline, where a missing definition is a programming error
+export const getWorkout = (id: ExerciseId): WorkoutDef => {
+  const def = exerciseRegistry.get(id);
+  if (!def) throw new Error(`Unknown exercise "${id}"`);
+  return def;
+};
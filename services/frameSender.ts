@@ -0,0 +1,114 @@
+import { MotionHint, MotionLevel } from '../types';
+import { blobToBase64 } from '../utils/audioUtils';
+import { CoachFrame, FrameStats } from './coachProvider';
+
+// Time between frames for each motion level: fast during reps, a trickle while
+// resting, and just enough with nobody in frame to notice someone stepping in
+const FRAME_INTERVAL_MS: Record<MotionLevel, number> = { ACTIVE: 150, STILL: 1000, EMPTY: 3000 };
+// Until the first motion hint arrives, frames go out at the old fixed rate
+const DEFAULT_INTERVAL_MS = 200;
+// A hint older than this no longer describes the frame
+const HINT_STALE_MS = 1000;
+const TICK_MS = 50;
+// Longest side of a sent frame, in pixels
+const MAX_FRAME_SIZE = 640;
+// Margin around the person's landmarks, as a fraction of the box size
+const CROP_PADDING = 0.2;
+const JPEG_QUALITY = 0.6;
+const STATS_INTERVAL_MS = 1000;
+
+interface FrameSenderConfig {
+  onFrame: (frame: CoachFrame) => void;
+  // Running totals for the session, at most once per STATS_INTERVAL_MS
+  onStats?: (stats: FrameStats) => void;
+}
+
+// Captures JPEG stills from a video for the coach. The frame rate follows the
+// person's motion, and frames are cropped to the person so the downscaled
+// image spends its pixels on them rather than the room.
+export class AdaptiveFrameSender {
+  private config: FrameSenderConfig;
+  private canvas = document.createElement('canvas');
+  private interval: number | null = null;
+  private hint: { motion: MotionHint; at: number } | null = null;
+  private lastSentAt = 0;
+  private lastStatsAt = 0;
+  private encoding = false;
+  private totals: FrameStats = { frames: 0, bytes: 0 };
+
+  constructor(config: FrameSenderConfig) {
+    this.config = config;
+  }
+
+  get stats(): FrameStats {
+    return { ...this.totals };
+  }
+
+  setMotion(motion: MotionHint) {
+    this.hint = { motion, at: Date.now() };
+  }
+
+  // Totals carry over when restarted, e.g. after a reconnect
+  start(video: HTMLVideoElement) {
+    this.stop();
+    this.interval = window.setInterval(() => this.tick(video), TICK_MS);
+  }
+
+  stop() {
+    if (this.interval) window.clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  private tick(video: HTMLVideoElement) {
+    if (video.paused || video.ended || !video.videoWidth || this.encoding) return;
+    const now = Date.now();
+    const motion = this.hint && now - this.hint.at < HINT_STALE_MS ? this.hint.motion : null;
+    const intervalMs = motion ? FRAME_INTERVAL_MS[motion.level] : DEFAULT_INTERVAL_MS;
+    if (now - this.lastSentAt < intervalMs) return;
+    this.lastSentAt = now;
+    this.capture(video, motion?.box ?? null);
+  }
+
+  private capture(video: HTMLVideoElement, box: MotionHint['box']) {
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Source rectangle in video pixels: the padded person box, or the whole frame
+    let sx = 0, sy = 0, sw = video.videoWidth, sh = video.videoHeight;
+    if (box) {
+      const padX = box.width * CROP_PADDING;
+      const padY = box.height * CROP_PADDING;
+      const left = Math.max(0, box.x - padX);
+      const top = Math.max(0, box.y - padY);
+      const right = Math.min(1, box.x + box.width + padX);
+      const bottom = Math.min(1, box.y + box.height + padY);
+      sx = left * video.videoWidth;
+      sy = top * video.videoHeight;
+      sw = (right - left) * video.videoWidth;
+      sh = (bottom - top) * video.videoHeight;
+    }
+    if (sw < 1 || sh < 1) return;
+
+    const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(sw, sh));
+    this.canvas.width = Math.round(sw * scale);
+    this.canvas.height = Math.round(sh * scale);
+    ctx.drawImage(video, sx, sy, sw, sh, 0, 0, this.canvas.width, this.canvas.height);
+
+    this.encoding = true;
+    this.canvas.toBlob(async (blob) => {
+      try {
+        if (!blob || this.interval === null) return;
+        const data = await blobToBase64(blob);
+        this.config.onFrame({ data, mimeType: 'image/jpeg' });
+        this.totals = { frames: this.totals.frames + 1, bytes: this.totals.bytes + data.length };
+        const now = Date.now();
+        if (now - this.lastStatsAt >= STATS_INTERVAL_MS) {
+          this.lastStatsAt = now;
+          this.config.onStats?.(this.stats);
+        }
+      } finally {
+        this.encoding = false;
+      }
+    }, 'image/jpeg', JPEG_QUALITY);
+  }
+}
@@ -1,35 +1,130 @@
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { decode, decodeAudioData, blobToBase64 } from '../utils/audioUtils';
-import { WorkoutType } from '../types';
-import { WORKOUTS } from '../constants';
+import { FunctionCall, FunctionDeclaration, GoogleGenAI, LiveServerMessage, Modality, Type } from '@google/genai';
+import { decode, decodeAudioData } from '../utils/audioUtils';
+import { formatTelemetry } from '../utils/telemetry';
+import { CoachReport, ExerciseId, MotionHint, PoseTelemetry } from '../types';
+import { getWorkout } from './exerciseRegistry';
+import { CoachAudio, CoachCallbacks, CoachError, CoachFrame, CoachProvider } from './coachProvider';
+import { AdaptiveFrameSender } from './frameSender';
 
-interface LiveConfig {
+interface LiveConfig extends CoachCallbacks {
   apiKey: string;
-  onTranscription: (text: string, role: 'user' | 'model') => void;
-  onConnect: () => void;
-  onDisconnect: () => void;
-  onError: (error: Error) => void;
 }
 
-export class GeminiLiveService {
+// Reports the coach makes alongside its speech, surfaced as CoachReport events
+const COACH_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'report_rep',
+    description: 'Report a completed rep. Call once per rep, right after it finishes.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        count: { type: Type.INTEGER, description: 'Rep number in the current set, starting at 1' },
+        quality: { type: Type.STRING, enum: ['good', 'fair', 'poor'], description: 'Overall form of the rep' }
+      },
+      required: ['count', 'quality']
+    }
+  },
+  {
+    name: 'flag_safety_issue',
+    description: 'Flag form that risks injury, e.g. a rounded lower back under load.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+        bodyPart: { type: Type.STRING, description: 'Body part at risk, e.g. "lower back"' }
+      },
+      required: ['severity', 'bodyPart']
+    }
+  },
+  {
+    name: 'form_score',
+    description: 'Score the form over the last few reps or seconds of a hold.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        score: { type: Type.INTEGER, description: '0 (unsafe) to 100 (textbook)' }
+      },
+      required: ['score']
+    }
+  }
+];
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[]) =>
+  options.includes(value as T) ? value as T : null;
+
+// Turns a tool call into a report, or null when the arguments don't fit
+const parseToolCall = (call: FunctionCall, timestamp: number): CoachReport | null => {
+  const args = call.args ?? {};
+  switch (call.name) {
+    case 'report_rep': {
+      const quality = oneOf(args.quality, ['good', 'fair', 'poor'] as const);
+      if (typeof args.count !== 'number' || !quality) return null;
+      return { type: 'rep', count: Math.round(args.count), quality, timestamp };
+    }
+    case 'flag_safety_issue': {
+      const severity = oneOf(args.severity, ['low', 'medium', 'high'] as const);
+      if (!severity || typeof args.bodyPart !== 'string') return null;
+      return { type: 'safety', severity, bodyPart: args.bodyPart, timestamp };
+    }
+    case 'form_score':
+      if (typeof args.score !== 'number') return null;
+      return { type: 'formScore', score: Math.max(0, Math.min(100, Math.round(args.score))), timestamp };
+    default:
+      return null;
+  }
+};
+
+// Turns a socket close into a typed error, or null for a clean close. The close
+// reason carries the server's message; codes are 1006 when the network dropped,
+// 1008 for a rejected key and 1011 for server errors, quota included.
+const classifyClose = (event: CloseEvent, cause: unknown): CoachError | null => {
+  const reason = event.reason || (cause instanceof Error ? cause.message : '');
+  if (/api key|permission|unauthori[sz]ed|forbidden/i.test(reason)) {
+    return new CoachError('auth', `Coach Gemini rejected the API key: ${reason}`, cause ?? event);
+  }
+  if (/quota|rate limit|resource.?exhausted/i.test(reason)) {
+    return new CoachError('quota', `Coach Gemini quota exceeded: ${reason}`, cause ?? event);
+  }
+  if (event.code === 1000 && !cause) return null;
+  if (event.code === 1006 || !navigator.onLine) {
+    return new CoachError('network', 'Lost the connection to Coach Gemini', cause ?? event);
+  }
+  if (event.code === 1008) {
+    return new CoachError('auth', `Coach Gemini refused the session${reason ? `: ${reason}` : ''}`, cause ?? event);
+  }
+  return new CoachError('server', `Coach Gemini closed the session (${event.code}${reason ? `: ${reason}` : ''})`, cause ?? event);
+};
+
+export class GeminiLiveService implements CoachProvider {
   private ai: GoogleGenAI;
   private config: LiveConfig;
   private session: any = null;
   private outputAudioContext: AudioContext | null = null;
   private nextStartTime = 0;
-  private videoInterval: number | null = null;
+  private frameSender: AdaptiveFrameSender;
   private sources = new Set<AudioBufferSourceNode>();
+  // Lets a reconnect pick up the same conversation; updated by the server
+  private resumeHandle: string | null = null;
+  // Bumped per connection, so callbacks from a socket we've moved on from are ignored
+  private connectionId = 0;
 
   constructor(config: LiveConfig) {
     this.config = config;
     this.ai = new GoogleGenAI({ apiKey: config.apiKey });
+    this.frameSender = new AdaptiveFrameSender({
+      onFrame: (frame) => this.sendFrame(frame),
+      onStats: config.onFrameStats
+    });
   }
 
-  async connect(workoutType: WorkoutType, videoElement: HTMLVideoElement) {
+  async connect(workoutType: ExerciseId, videoElement: HTMLVideoElement) {
+    await this.disconnect();
+    const id = ++this.connectionId;
+    let failure: unknown = null;
     this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
     
     // Get specific details for the selected workout
-    const workoutDef = WORKOUTS[workoutType];
+    const workoutDef = getWorkout(workoutType);
     const tipsList = workoutDef.tips.map(tip => `- ${tip}`).join('\n');
 
     // Enhanced System Instruction for Precise, Actionable Feedback
@@ -42,6 +137,8 @@ export class GeminiLiveService {
       
       YOUR MISSION:
       Analyze the video feed frame-by-frame and provide continuous, high-precision corrections.
+      Frames are cropped around the user and arrive faster during reps than at rest, so a slow
+      feed means they are resting or out of frame.
       
       FEEDBACK RULES:
       1. **Every Move Matters**: Comment on the eccentric (lowering) and concentric (lifting) phases.
@@ -49,6 +146,23 @@ export class GeminiLiveService {
       3. **Immediate Correction**: If form deviates, correct it instantly (e.g., "Knees pushing in - force them out!", "Don't swing your back").
       4. **Safety First**: If they are doing something dangerous, start with "STOP".
       5. **Concise Display**: Your output is shown on a HUD. Keep it punchy (max 8-10 words).
+
+      REPORTING:
+      Alongside your spoken cues, call report_rep after every completed rep, flag_safety_issue
+      whenever form risks injury, and form_score every few reps (or every 10 seconds of a hold).
+      These calls are silent, so still say your cues out loud.
+
+      MEASUREMENTS:
+      About once a second you also get a "[telemetry]" line measured on-device at full frame rate:
+      rep count, rep phase, camera view, key joint angles in degrees (other values are in body
+      proportions, "?" when not visible) and the on-device form cue. Trust these numbers over
+      what you can judge from the low-resolution frames, and use them to be specific
+      (e.g. "Knee only reached 110, sink lower"). Never read the telemetry out or reply to it directly.
+
+      VOICE:
+      The user may turn on their microphone. Answer their questions (e.g. "How was that set?")
+      in a sentence or two, using the reps and telemetry you've seen. Short commands like "start",
+      "pause", "next exercise" or "how many reps" are handled by the app: don't reply to those.
       
       Do NOT greet. Do NOT ask questions. Simply analyze and coach.
     `;
@@ -57,18 +171,26 @@ export class GeminiLiveService {
       model: 'gemini-2.5-flash-native-audio-preview-09-2025',
       callbacks: {
         onopen: async () => {
+          if (id !== this.connectionId) return;
           this.config.onConnect();
           // Setup Video Input Stream
-          this.startVideoStream(videoElement, sessionPromise);
+          this.startVideoStream(videoElement);
         },
         onmessage: async (message: LiveServerMessage) => {
+          if (id !== this.connectionId) return;
           this.handleMessage(message);
         },
         onclose: (e) => {
+          if (id !== this.connectionId) return;
+          this.frameSender.stop();
+          this.session = null;
+          const error = classifyClose(e, failure);
+          if (error) this.config.onError(error);
           this.config.onDisconnect();
         },
         onerror: (e) => {
-            this.config.onError(new Error("Session error"));
+          // The details arrive with the close that follows
+          failure = e;
         }
       },
       config: {
@@ -77,45 +199,81 @@ export class GeminiLiveService {
           voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
         },
         systemInstruction: systemInstruction,
+        tools: [{ functionDeclarations: COACH_TOOLS }],
         outputAudioTranscription: {},
+        inputAudioTranscription: {},
+        sessionResumption: { handle: this.resumeHandle ?? undefined }
       }
     });
 
     this.session = sessionPromise;
+    // A failed handshake also closes the socket, which reports it
+    sessionPromise.catch((cause) => { failure = cause; });
   }
 
-  private startVideoStream(videoEl: HTMLVideoElement, sessionPromise: Promise<any>) {
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    
-    // Increased FPS for better motion resolution (was 2)
-    const FPS = 5; 
-    
-    this.videoInterval = window.setInterval(() => {
-        if (!videoEl || videoEl.paused || videoEl.ended || !ctx) return;
-        
-        // Scale down for performance/tokens while maintaining aspect ratio
-        const scale = 0.5;
-        canvas.width = videoEl.videoWidth * scale;
-        canvas.height = videoEl.videoHeight * scale;
-        
-        ctx.drawImage(videoEl, 0, 0, canvas.width, canvas.height);
-        
-        canvas.toBlob(async (blob) => {
-            if (blob) {
-                const base64 = await blobToBase64(blob);
-                sessionPromise.then(session => {
-                    session.sendRealtimeInput({
-                        media: { data: base64, mimeType: 'image/jpeg' }
-                    });
-                });
-            }
-        }, 'image/jpeg', 0.6);
-    }, 1000 / FPS);
+  private withSession(send: (session: any) => void) {
+    this.session?.then(send, () => {});
+  }
+
+  private startVideoStream(videoEl: HTMLVideoElement) {
+    this.frameSender.start(videoEl);
+  }
+
+  setMotion(motion: MotionHint) {
+    this.frameSender.setMotion(motion);
+  }
+
+  get frameStats() {
+    return this.frameSender.stats;
+  }
+
+  sendFrame(frame: CoachFrame) {
+    this.withSession(session => session.sendRealtimeInput({ media: frame }));
+  }
+
+  sendAudio(chunk: CoachAudio) {
+    this.withSession(session => session.sendRealtimeInput({ audio: chunk }));
+  }
+
+  sendContext(text: string) {
+    this.withSession(session => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }));
+  }
+
+  // Realtime text, so the model takes it in without treating it as a turn to answer
+  sendTelemetry(sample: PoseTelemetry) {
+    this.withSession(session => session.sendRealtimeInput({ text: formatTelemetry(sample) }));
+  }
+
+  setWorkout(workoutType: ExerciseId) {
+    const workoutDef = getWorkout(workoutType);
+    const tipsList = workoutDef.tips.map(tip => `- ${tip}`).join('\n');
+    this.sendContext(`The user has switched exercises and is now performing: ${workoutDef.name}.\nTARGET FORM & CUES:\n${tipsList}\nCoach this exercise from now on.`);
   }
 
   private async handleMessage(message: LiveServerMessage) {
+    // Handle Tool Calls: reports stay separate from speech
+    const calls = message.toolCall?.functionCalls;
+    if (calls?.length) {
+        for (const call of calls) {
+            const report = parseToolCall(call, Date.now());
+            if (report) this.config.onEvent?.({ type: 'report', report });
+            else console.warn('Ignoring malformed coach tool call', call);
+        }
+        this.withSession(session => session.sendToolResponse({
+            functionResponses: calls.map(call => ({ id: call.id, name: call.name, response: { result: 'ok' } }))
+        }));
+    }
+
+    // Handle Session Resumption: the latest resumable point is where a reconnect picks up
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) {
+        this.resumeHandle = resumption.newHandle;
+    }
+
     // Handle Transcriptions
+    if (message.serverContent?.inputTranscription?.text) {
+        this.config.onTranscription(message.serverContent.inputTranscription.text, 'user');
+    }
     if (message.serverContent?.outputTranscription) {
         this.config.onTranscription(message.serverContent.outputTranscription.text, 'model');
     }
@@ -140,10 +298,12 @@ export class GeminiLiveService {
         
         source.addEventListener('ended', () => {
             this.sources.delete(source);
+            if (this.sources.size === 0) this.config.onAudio?.(false);
         });
         
         source.start(this.nextStartTime);
         this.nextStartTime += audioBuffer.duration;
+        if (this.sources.size === 0) this.config.onAudio?.(true);
         this.sources.add(source);
     }
     
@@ -154,21 +314,32 @@ export class GeminiLiveService {
         });
         this.sources.clear();
         this.nextStartTime = 0;
+        this.config.onAudio?.(false);
+        this.config.onEvent?.({ type: 'interrupted' });
+    }
+
+    if (message.serverContent?.turnComplete) {
+        this.config.onEvent?.({ type: 'turnComplete' });
     }
   }
 
   async disconnect() {
-    if (this.session) {
-       const s = await this.session;
-       // Cleanup logic
-    }
+    // Closing is ours, so the socket's close isn't reported
+    this.connectionId++;
+    // Not awaited: a handshake that never completes mustn't block a reconnect
+    this.withSession(session => session.close());
+    this.session = null;
     
-    if (this.videoInterval) clearInterval(this.videoInterval);
+    this.frameSender.stop();
+    this.sources.forEach(src => {
+        try { src.stop(); } catch(e) {}
+    });
+    this.sources.clear();
+    this.nextStartTime = 0;
     
     if (this.outputAudioContext) {
         this.outputAudioContext.close();
         this.outputAudioContext = null;
     }
-    this.session = null;
   }
 }
\ No newline at end of file
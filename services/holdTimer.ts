@@ -0,0 +1,94 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { FormRule, HoldPattern, HoldStats, HoldStatus } from '../types';
+import { conditionsHold, evaluateFormRules, RuleContext } from '../utils/formRules';
+import { MAX_FRAME_GAP_MS } from '../utils/poseUtils';
+
+interface HoldTimerConfig {
+  pattern: HoldPattern;
+  rules: FormRule[];
+  targetSeconds?: number;
+  onTargetReached?: () => void;
+}
+
+// A form break has to persist this long before it pauses the clock
+const BREAK_GRACE_MS = 400;
+
+export class HoldTimer {
+  private config: HoldTimerConfig;
+  private breakRules: FormRule[];
+  private status: HoldStatus = 'WAITING';
+  private lastTime: number | null = null;
+  private breakSince: number | null = null;
+  private validMs = 0;
+  private currentStretchMs = 0;
+  private longestCleanMs = 0;
+  private breaks = 0;
+  private targetReached = false;
+
+  constructor(config: HoldTimerConfig) {
+    this.config = config;
+    this.breakRules = config.rules.filter(rule => config.pattern.breakRules.includes(rule.id));
+  }
+
+  get targetMs() {
+    return (this.config.targetSeconds ?? this.config.pattern.targetSeconds) * 1000;
+  }
+
+  reset() {
+    this.status = 'WAITING';
+    this.lastTime = null;
+    this.breakSince = null;
+    this.validMs = 0;
+    this.currentStretchMs = 0;
+    this.longestCleanMs = 0;
+    this.breaks = 0;
+    this.targetReached = false;
+  }
+
+  update(landmarks: NormalizedLandmark[], ctx: RuleContext, timestamp: number) {
+    const dt = this.lastTime !== null ? timestamp - this.lastTime : 0;
+    this.lastTime = timestamp;
+
+    const inPosition = conditionsHold(this.config.pattern.posture, landmarks, ctx);
+    const formBroken = evaluateFormRules(this.breakRules, landmarks, ctx) !== null;
+
+    let clean = inPosition && !formBroken;
+    if (inPosition && formBroken && this.status === 'HOLDING') {
+      // Ride out brief wobbles before calling it a break
+      if (this.breakSince === null) this.breakSince = timestamp;
+      if (timestamp - this.breakSince < BREAK_GRACE_MS) clean = true;
+    } else {
+      this.breakSince = null;
+    }
+
+    if (clean) {
+      if (this.status === 'HOLDING' && dt < MAX_FRAME_GAP_MS) {
+        this.validMs += dt;
+        this.currentStretchMs += dt;
+        this.longestCleanMs = Math.max(this.longestCleanMs, this.currentStretchMs);
+      }
+      this.status = 'HOLDING';
+    } else if (this.status === 'HOLDING') {
+      this.breaks++;
+      this.currentStretchMs = 0;
+      this.status = inPosition ? 'BROKEN' : 'WAITING';
+    } else if (this.status === 'BROKEN' && !inPosition) {
+      this.status = 'WAITING';
+    }
+
+    if (!this.targetReached && this.validMs >= this.targetMs) {
+      this.targetReached = true;
+      this.config.onTargetReached?.();
+    }
+  }
+
+  get stats(): HoldStats {
+    return {
+      status: this.status,
+      targetMs: this.targetMs,
+      validMs: this.validMs,
+      breaks: this.breaks,
+      longestCleanMs: this.longestCleanMs
+    };
+  }
+}
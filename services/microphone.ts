@@ -0,0 +1,132 @@
+import { createBlob } from '../utils/audioUtils';
+import { CoachAudio } from './coachProvider';
+
+const SAMPLE_RATE = 16000;
+// About a quarter second of audio per chunk
+const CHUNK_SIZE = 4096;
+
+// Recognizer errors that restarting won't fix
+const FATAL_RECOGNITION_ERRORS: Record<string, string> = {
+  'not-allowed': "Speech recognition isn't allowed on this site, so voice commands are off.",
+  'service-not-allowed': "Speech recognition isn't allowed on this site, so voice commands are off.",
+  'audio-capture': "No microphone could be used for voice commands.",
+  'network': "The browser's speech recognition needs a network connection, so voice commands are off.",
+  'language-not-supported': "Speech recognition doesn't support this language, so voice commands are off."
+};
+
+// The browser speech recognizer isn't in the DOM typings yet
+interface SpeechRecognizer {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }> }) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+interface MicrophoneConfig {
+  // PCM for a coach that listens, while the mic is on
+  onAudio: (chunk: CoachAudio) => void;
+  // Each finished utterance, recognized on the device where the browser can
+  onSpeech: (text: string) => void;
+  // Recognition stopped for good, e.g. permission was denied; the audio keeps
+  // streaming to the coach
+  onError: (message: string) => void;
+}
+
+// The opt-in microphone: streams 16 kHz PCM for the coach to hear questions,
+// and recognizes speech locally so voice commands work with any coach, or
+// before a session has started.
+export class Microphone {
+  private config: MicrophoneConfig;
+  private stream: MediaStream | null = null;
+  private context: AudioContext | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private recognizer: SpeechRecognizer | null = null;
+  // Set by stop(), so a start() still waiting for permission gives the stream back
+  private stopped = true;
+
+  constructor(config: MicrophoneConfig) {
+    this.config = config;
+  }
+
+  // Local speech recognition needs the browser's recognizer (Chrome, Edge, Safari)
+  static get canRecognize() {
+    return 'SpeechRecognition' in window || 'webkitSpeechRecognition' in window;
+  }
+
+  async start() {
+    this.stop();
+    this.stopped = false;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      // Keeps the coach's own voice out of what it hears
+      audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 }
+    });
+    // Turned off before the browser handed over the stream
+    if (this.stopped) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.stream = stream;
+
+    this.context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE });
+    const source = this.context.createMediaStreamSource(this.stream);
+    this.processor = this.context.createScriptProcessor(CHUNK_SIZE, 1, 1);
+    this.processor.onaudioprocess = (e) => {
+      const { data, mimeType } = createBlob(e.inputBuffer.getChannelData(0));
+      this.config.onAudio({ data: data!, mimeType: mimeType! });
+    };
+    source.connect(this.processor);
+    this.processor.connect(this.context.destination);
+
+    this.startRecognizer();
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.recognizer) {
+      this.recognizer.onend = null;
+      this.recognizer.onerror = null;
+      this.recognizer.stop();
+      this.recognizer = null;
+    }
+    if (this.processor) {
+      this.processor.onaudioprocess = null;
+      this.processor.disconnect();
+      this.processor = null;
+    }
+    this.context?.close();
+    this.context = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+
+  private startRecognizer() {
+    const Recognizer = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    if (!Recognizer) return;
+    const recognizer: SpeechRecognizer = new Recognizer();
+    recognizer.continuous = true;
+    recognizer.interimResults = false;
+    recognizer.lang = navigator.language || 'en-US';
+    recognizer.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) this.config.onSpeech(result[0].transcript.trim());
+      }
+    };
+    // Recognition stops by itself after a silence; keep listening while the mic is on
+    recognizer.onend = () => recognizer.start();
+    recognizer.onerror = (event) => {
+      const message = FATAL_RECOGNITION_ERRORS[event.error];
+      if (!message) return;
+      recognizer.onend = null;
+      recognizer.onerror = null;
+      if (this.recognizer === recognizer) this.recognizer = null;
+      this.config.onError(message);
+    };
+    recognizer.start();
+    this.recognizer = recognizer;
+  }
+}
@@ -0,0 +1,60 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { BodyOrientation } from '../types';
+import { classifyOrientation } from '../utils/poseUtils';
+
+// A new classification has to persist this long before the view switches,
+// so a turn of the head or a mid-rep twist doesn't flip the active rules
+const SWITCH_AFTER_MS = 600;
+
+export const VIEW_LABELS: Record<BodyOrientation, string> = {
+  FRONT: 'Front',
+  THREE_QUARTER: '3/4',
+  SIDE: 'Side',
+  BACK: 'Back'
+};
+
+const VIEW_HINTS: Record<BodyOrientation, string> = {
+  FRONT: 'Face the Camera',
+  THREE_QUARTER: 'Turn Halfway to the Camera',
+  SIDE: 'Turn Side-On to the Camera',
+  BACK: 'Turn Your Back to the Camera'
+};
+
+// Cue asking the user to turn, or null when the view suits the exercise
+export const viewHint = (view: BodyOrientation | null, preferred: BodyOrientation[] | undefined): string | null => {
+  if (!view || !preferred || preferred.length === 0 || preferred.includes(view)) return null;
+  return VIEW_HINTS[preferred[0]];
+};
+
+export class OrientationTracker {
+  private current: BodyOrientation | null = null;
+  private candidate: BodyOrientation | null = null;
+  private candidateSince = 0;
+
+  get view() {
+    return this.current;
+  }
+
+  reset() {
+    this.current = null;
+    this.candidate = null;
+  }
+
+  // Returns true when the stable view changed on this frame
+  update(landmarks: NormalizedLandmark[], timestamp: number): boolean {
+    const next = classifyOrientation(landmarks);
+    if (next === this.current) {
+      this.candidate = null;
+      return false;
+    }
+    if (next !== this.candidate) {
+      this.candidate = next;
+      this.candidateSince = timestamp;
+    }
+    // The first classification is taken as-is
+    if (this.current !== null && timestamp - this.candidateSince < SWITCH_AFTER_MS) return false;
+    this.current = next;
+    this.candidate = null;
+    return true;
+  }
+}
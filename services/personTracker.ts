@@ -0,0 +1,92 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { LANDMARK as L, isVisible, measureBody } from '../utils/poseUtils';
+
+// A pose this far (in body sizes) from a person's last position is someone else
+const MAX_MATCH_BODIES = 1.5;
+// People who haven't been seen for this long lose their id
+const FORGET_AFTER_MS = 1500;
+
+export interface TrackedPerson {
+  id: number;
+  landmarks: NormalizedLandmark[];
+  // Position in the detector output, e.g. to pick the matching segmentation mask
+  index: number;
+  bodyScale: number;
+}
+
+interface Track {
+  id: number;
+  x: number;
+  y: number;
+  bodyScale: number;
+  lastSeen: number;
+}
+
+const TORSO = [L.LEFT_SHOULDER, L.RIGHT_SHOULDER, L.LEFT_HIP, L.RIGHT_HIP];
+
+const center = (landmarks: NormalizedLandmark[]) => {
+  const points = TORSO.map(idx => landmarks[idx]).filter(lm => isVisible(lm));
+  const source = points.length > 0 ? points : landmarks;
+  return {
+    x: source.reduce((sum, lm) => sum + lm.x, 0) / source.length,
+    y: source.reduce((sum, lm) => sum + lm.y, 0) / source.length
+  };
+};
+
+// Gives each detected pose an id that stays with the same person from frame
+// to frame. The detector returns poses in no particular order, so poses are
+// matched to the closest known person, nearest pairs first.
+export class PersonTracker {
+  private tracks: Track[] = [];
+  private nextId = 1;
+
+  // True while a person is remembered, even if missed in the latest frame
+  has(id: number) {
+    return this.tracks.some(track => track.id === id);
+  }
+
+  get ids() {
+    return this.tracks.map(track => track.id);
+  }
+
+  reset() {
+    this.tracks = [];
+    this.nextId = 1;
+  }
+
+  update(poses: NormalizedLandmark[][], timestamp: number): TrackedPerson[] {
+    this.tracks = this.tracks.filter(track => timestamp - track.lastSeen <= FORGET_AFTER_MS);
+    const detections = poses.map((landmarks, index) => ({ landmarks, index, ...center(landmarks), bodyScale: measureBody(landmarks).bodyScale }));
+
+    const pairs: { track: Track; detection: typeof detections[number]; distance: number }[] = [];
+    for (const track of this.tracks) {
+      for (const detection of detections) {
+        const distance = Math.hypot(detection.x - track.x, detection.y - track.y);
+        if (distance <= MAX_MATCH_BODIES * Math.max(track.bodyScale, detection.bodyScale)) pairs.push({ track, detection, distance });
+      }
+    }
+    pairs.sort((a, b) => a.distance - b.distance);
+
+    const people: TrackedPerson[] = [];
+    const matchedTracks = new Set<Track>();
+    const matchedDetections = new Set<number>();
+    const place = (track: Track, detection: typeof detections[number]) => {
+      Object.assign(track, { x: detection.x, y: detection.y, bodyScale: detection.bodyScale, lastSeen: timestamp });
+      people.push({ id: track.id, landmarks: detection.landmarks, index: detection.index, bodyScale: detection.bodyScale });
+    };
+
+    for (const { track, detection } of pairs) {
+      if (matchedTracks.has(track) || matchedDetections.has(detection.index)) continue;
+      matchedTracks.add(track);
+      matchedDetections.add(detection.index);
+      place(track, detection);
+    }
+    for (const detection of detections) {
+      if (matchedDetections.has(detection.index)) continue;
+      const track: Track = { id: this.nextId++, x: detection.x, y: detection.y, bodyScale: detection.bodyScale, lastSeen: timestamp };
+      this.tracks.push(track);
+      place(track, detection);
+    }
+    return people.sort((a, b) => a.id - b.id);
+  }
+}
@@ -0,0 +1,277 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { BodyOrientation, BodyProportions, ExerciseId, HoldStats, MotionHint, PoseTelemetry, RepEvent, RepPhase, WorkoutType } from '../types';
+import { getWorkout } from './exerciseRegistry';
+import { RepCounter } from './repCounter';
+import { HoldTimer } from './holdTimer';
+import { DEFAULT_IMBALANCE_PCT, SymmetryTracker, supportsSymmetry } from './symmetryTracker';
+import { OrientationTracker, viewHint } from './orientationTracker';
+import { BodyCalibrator, CalibrationProgress } from './bodyCalibrator';
+import { evaluateFormRules, RuleContext } from '../utils/formRules';
+import { calibratePattern } from '../utils/calibration';
+import { measureTelemetry, telemetryFields } from '../utils/telemetry';
+import { adaptiveSmoothLandmarks, isVisible, updateStability } from '../utils/poseUtils';
+
+interface PoseAnalyzerCallbacks {
+  onRep?: (event: RepEvent) => void;
+  onPhaseChange?: (phase: RepPhase) => void;
+  // Fired every HEURISTIC_INTERVAL_MS while analyzing, null when form looks fine
+  onCueUpdate?: (cue: string | null) => void;
+  // Fired once when a new cue appears
+  onCueFired?: (cue: string) => void;
+  onHoldUpdate?: (stats: HoldStats) => void;
+  onOrientationChange?: (view: BodyOrientation | null) => void;
+  onCalibrationProgress?: (progress: CalibrationProgress) => void;
+  onCalibrated?: (proportions: BodyProportions) => void;
+}
+
+// How often heuristic cues are re-evaluated
+export const HEURISTIC_INTERVAL_MS = 500;
+// Keep showing the last pose this long when detection drops a frame
+const LANDMARK_GRACE_MS = 200;
+// How long tempo / hold-timer cues stay up when no form cue fires
+const TRANSIENT_CUE_MS = 3000;
+// Stability score above which the body counts as moving (holds break at 0.002)
+const MOVING_STABILITY = 0.0015;
+
+// Biomechanical Analysis (rules live on each WorkoutDef, see constants.tsx)
+// Rules tied to other camera views are skipped for the current orientation.
+export const analyzePose = (landmarks: NormalizedLandmark[], workout: ExerciseId, ctx: RuleContext): string | null => {
+  const rule = evaluateFormRules(getWorkout(workout).rules, landmarks, ctx);
+  return rule ? rule.cue : null;
+};
+
+// Per-person analysis pipeline: landmark persistence, smoothing, stability,
+// camera-view detection, body calibration, rep counting, left/right symmetry,
+// hold timing and heuristic cues. Shared by the live camera,
+// recording replay and headless fixture runs so they all behave the same.
+export class PoseAnalyzer {
+  private callbacks: PoseAnalyzerCallbacks;
+  private workout: ExerciseId = WorkoutType.SQUAT;
+  private repCounter: RepCounter | null = null;
+  private holdTimer: HoldTimer | null = null;
+  private symmetry: SymmetryTracker | null = null;
+  private imbalanceThresholdPct = DEFAULT_IMBALANCE_PCT;
+  private symmetryCue: string | null = null;
+  private orientation = new OrientationTracker();
+  private calibration: BodyProportions | null = null;
+  private calibrator: BodyCalibrator | null = null;
+
+  private prevLandmarks: NormalizedLandmark[] | null = null;
+  private lastValidLandmarks: NormalizedLandmark[] | null = null;
+  private lastLandmarksTime = 0;
+  private stability = 0;
+  private currentTime = 0;
+
+  private lastHeuristicUpdate = 0;
+  private lastCue: string | null = null;
+  private transientCue: { text: string; until: number } | null = null;
+
+  constructor(callbacks: PoseAnalyzerCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  get smoothed() {
+    return this.prevLandmarks;
+  }
+
+  get stabilityScore() {
+    return this.stability;
+  }
+
+  get orientationView() {
+    return this.orientation.view;
+  }
+
+  get holdStats() {
+    return this.holdTimer?.stats ?? null;
+  }
+
+  // The latest smoothed pose measured for the coach, or null while nobody is tracked
+  telemetry(): PoseTelemetry | null {
+    const landmarks = this.prevLandmarks;
+    if (!landmarks) return null;
+    const ctx: RuleContext = { stabilityScore: this.stability, jointSpeed: this.repCounter?.jointSpeed, orientation: this.orientation.view, calibration: this.calibration };
+    return {
+      workout: this.workout,
+      metrics: measureTelemetry(telemetryFields(getWorkout(this.workout)), landmarks, ctx),
+      phase: this.repCounter?.currentPhase ?? null,
+      reps: this.repCounter?.reps ?? 0,
+      hold: this.holdStats,
+      cue: this.lastCue,
+      view: this.orientation.view
+    };
+  }
+
+  // Whether the person is mid-rep or moving, and where they are in frame
+  motion(): MotionHint {
+    const landmarks = this.prevLandmarks;
+    if (!landmarks) return { level: 'EMPTY', box: null };
+    const visible = landmarks.filter(lm => isVisible(lm));
+    if (visible.length === 0) return { level: 'EMPTY', box: null };
+
+    const xs = visible.map(lm => lm.x);
+    const ys = visible.map(lm => lm.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    const box = { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+
+    const phase = this.repCounter?.currentPhase;
+    const midRep = !!phase && phase !== 'OPEN';
+    return { level: midRep || this.stability > MOVING_STABILITY ? 'ACTIVE' : 'STILL', box };
+  }
+
+  // Rebuilds the rep state machine and hold timer for a workout
+  configure(workout: ExerciseId, holdTargetSeconds?: number) {
+    this.workout = workout;
+    const { repPattern: basePattern, tempo, hold, rules } = getWorkout(workout);
+    const repPattern = basePattern && this.calibration ? calibratePattern(basePattern, this.calibration) : basePattern;
+
+    this.repCounter = repPattern ? new RepCounter({
+      workout,
+      pattern: repPattern,
+      tempo,
+      onRep: (event) => this.handleRep(event),
+      onPhaseChange: (phase) => this.callbacks.onPhaseChange?.(phase),
+      onTempoCue: (text) => this.showTransientCue(text)
+    }) : null;
+
+    this.symmetry = repPattern && supportsSymmetry(repPattern) ? new SymmetryTracker(repPattern) : null;
+    if (this.symmetry) this.symmetry.thresholdPct = this.imbalanceThresholdPct;
+
+    this.holdTimer = hold ? new HoldTimer({
+      pattern: hold,
+      rules,
+      targetSeconds: holdTargetSeconds,
+      onTargetReached: () => this.showTransientCue('Target reached!')
+    }) : null;
+
+    this.transientCue = null;
+    this.lastCue = null;
+  }
+
+  // Percentage difference between the sides that counts as an imbalance
+  setImbalanceThreshold(pct: number) {
+    this.imbalanceThresholdPct = pct;
+    if (this.symmetry) this.symmetry.thresholdPct = pct;
+  }
+
+  // The user's body proportions, or null for per-frame estimates. Rep
+  // thresholds pick it up on the next configure().
+  setCalibration(calibration: BodyProportions | null) {
+    this.calibration = calibration;
+  }
+
+  // Captures the user's proportions from the next few seconds of a T-pose,
+  // reported through onCalibrated. Nothing is analyzed in the meantime.
+  startCalibration() {
+    this.calibrator = new BodyCalibrator();
+  }
+
+  cancelCalibration() {
+    this.calibrator = null;
+  }
+
+  // Zeroes counters for a new session; smoothing state is kept
+  reset() {
+    this.repCounter?.reset();
+    this.symmetry?.reset();
+    this.symmetryCue = null;
+    this.holdTimer?.reset();
+    this.transientCue = null;
+    this.lastCue = null;
+    this.lastHeuristicUpdate = 0;
+  }
+
+  // Forgets the last pose, e.g. after seeking a video, so smoothing and the
+  // landmark grace period don't blend frames from two points in time
+  clearTracking() {
+    this.prevLandmarks = null;
+    this.lastValidLandmarks = null;
+    this.orientation.reset();
+    this.callbacks.onOrientationChange?.(null);
+  }
+
+  private handleRep(event: RepEvent) {
+    if (!this.symmetry) {
+      this.callbacks.onRep?.(event);
+      return;
+    }
+    const { rep, cue } = this.symmetry.completeRep(event);
+    this.symmetryCue = cue;
+    this.callbacks.onRep?.(rep);
+  }
+
+  private showTransientCue(text: string) {
+    this.transientCue = { text, until: this.currentTime + TRANSIENT_CUE_MS };
+  }
+
+  // Feeds one frame of raw landmarks (null when no pose was found).
+  // Returns the smoothed landmarks to draw, or null once tracking is lost.
+  process(raw: NormalizedLandmark[] | null, timestamp: number, analyzing: boolean): NormalizedLandmark[] | null {
+    this.currentTime = timestamp;
+    let landmarks: NormalizedLandmark[] | null = null;
+    if (raw) {
+      landmarks = raw;
+      this.lastValidLandmarks = raw;
+      this.lastLandmarksTime = timestamp;
+    } else if (this.lastValidLandmarks && timestamp - this.lastLandmarksTime < LANDMARK_GRACE_MS) {
+      landmarks = this.lastValidLandmarks;
+    }
+
+    if (!landmarks) {
+      if (timestamp - this.lastLandmarksTime > LANDMARK_GRACE_MS) {
+        this.prevLandmarks = null;
+        if (this.orientation.view) {
+          this.orientation.reset();
+          this.callbacks.onOrientationChange?.(null);
+        }
+      }
+      return null;
+    }
+
+    const smoothed = adaptiveSmoothLandmarks(landmarks, this.prevLandmarks);
+    this.prevLandmarks = smoothed;
+    this.stability = updateStability(this.stability, landmarks, smoothed);
+    if (this.orientation.update(smoothed, timestamp)) this.callbacks.onOrientationChange?.(this.orientation.view);
+
+    if (this.calibrator) {
+      const progress = this.calibrator.update(smoothed, { stabilityScore: this.stability, orientation: this.orientation.view }, timestamp);
+      this.callbacks.onCalibrationProgress?.(progress);
+      if (this.calibrator.done) {
+        const proportions = this.calibrator.result();
+        this.calibrator = null;
+        this.callbacks.onCalibrated?.(proportions);
+      }
+      return smoothed;
+    }
+
+    if (!analyzing) return smoothed;
+
+    // Symmetry samples first: the rep counter may close a rep on this frame
+    this.symmetry?.update(smoothed, timestamp);
+    this.repCounter?.update(smoothed, timestamp);
+    // Shown after the rep counter's tempo cue for the same rep, so an imbalance wins
+    if (this.symmetryCue) {
+      this.showTransientCue(this.symmetryCue);
+      this.symmetryCue = null;
+    }
+    const view = this.orientation.view;
+    const ctx: RuleContext = { stabilityScore: this.stability, jointSpeed: this.repCounter?.jointSpeed, orientation: view, calibration: this.calibration };
+    this.holdTimer?.update(smoothed, ctx, timestamp);
+
+    if (timestamp - this.lastHeuristicUpdate > HEURISTIC_INTERVAL_MS) {
+      const transient = this.transientCue && timestamp < this.transientCue.until ? this.transientCue.text : null;
+      // A wrong camera angle persists, so asking to turn waits behind the short-lived cues
+      const cue = analyzePose(landmarks, this.workout, ctx)
+        ?? transient
+        ?? viewHint(view, getWorkout(this.workout).preferredViews);
+      this.callbacks.onCueUpdate?.(cue);
+      if (cue && cue !== this.lastCue) this.callbacks.onCueFired?.(cue);
+      this.lastCue = cue;
+      if (this.holdTimer) this.callbacks.onHoldUpdate?.(this.holdTimer.stats);
+      this.lastHeuristicUpdate = timestamp;
+    }
+
+    return smoothed;
+  }
+}
@@ -0,0 +1,44 @@
+import { FilesetResolver, PoseLandmarker } from '@mediapipe/tasks-vision';
+
+// Served from public/mediapipe (see scripts/fetch-mediapipe-assets.mjs), so
+// tracking works without a network connection
+const ASSET_PATH = '/mediapipe';
+
+export type PoseModel = 'lite' | 'full' | 'heavy';
+export type PoseDelegate = 'GPU' | 'CPU';
+
+export const POSE_MODELS: Record<PoseModel, { label: string; detail: string }> = {
+  lite: { label: 'Lite', detail: 'Fastest, for older laptops and phones' },
+  full: { label: 'Full', detail: 'Balanced speed and accuracy' },
+  heavy: { label: 'Heavy', detail: 'Most accurate, needs a strong GPU' }
+};
+
+export const DEFAULT_POSE_MODEL: PoseModel = 'full';
+
+// Loads the pose landmarker on the GPU, or on the CPU when WebGL isn't
+// available (blocked drivers, remote desktops, some locked-down machines)
+export const createPoseLandmarker = async (
+  model: PoseModel,
+  numPoses: number
+): Promise<{ landmarker: PoseLandmarker; delegate: PoseDelegate }> => {
+  const vision = await FilesetResolver.forVisionTasks(`${ASSET_PATH}/wasm`);
+  const create = (delegate: PoseDelegate) => PoseLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: `${ASSET_PATH}/models/pose_landmarker_${model}.task`,
+      delegate
+    },
+    runningMode: 'VIDEO',
+    numPoses,
+    minPoseDetectionConfidence: 0.5,
+    minTrackingConfidence: 0.5,
+    minPosePresenceConfidence: 0.5,
+    outputSegmentationMasks: true // Enabled for Exact Shape tracking
+  });
+
+  try {
+    return { landmarker: await create('GPU'), delegate: 'GPU' };
+  } catch (e) {
+    console.warn('GPU pose tracking unavailable, falling back to CPU', e);
+    return { landmarker: await create('CPU'), delegate: 'CPU' };
+  }
+};
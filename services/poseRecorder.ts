@@ -0,0 +1,73 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { ExerciseId, PoseRecording } from '../types';
+import { isExerciseId } from './exerciseRegistry';
+import { createValidator } from '../utils/validation';
+
+export const POSE_RECORDING_FORMAT = 'formfit-pose';
+export const POSE_RECORDING_VERSION = 1;
+
+// 4 decimals is well below landmark jitter and keeps files small
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export const packLandmarks = (landmarks: NormalizedLandmark[]): number[] =>
+  landmarks.flatMap(lm => [round(lm.x), round(lm.y), round(lm.z), round(lm.visibility ?? 0)]);
+
+export const unpackLandmarks = (packed: number[]): NormalizedLandmark[] | null => {
+  if (packed.length === 0) return null;
+  const landmarks: NormalizedLandmark[] = [];
+  for (let i = 0; i < packed.length; i += 4) {
+    landmarks.push({ x: packed[i], y: packed[i + 1], z: packed[i + 2], visibility: packed[i + 3] });
+  }
+  return landmarks;
+};
+
+export class PoseRecorder {
+  private workout: ExerciseId;
+  private startTime: number | null = null;
+  private frames: PoseRecording['frames'] = [];
+
+  constructor(workout: ExerciseId) {
+    this.workout = workout;
+  }
+
+  get frameCount() {
+    return this.frames.length;
+  }
+
+  addFrame(timestamp: number, landmarks: NormalizedLandmark[] | null) {
+    if (this.startTime === null) this.startTime = timestamp;
+    this.frames.push({ t: Math.round(timestamp - this.startTime), lm: landmarks ? packLandmarks(landmarks) : [] });
+  }
+
+  finish(videoWidth: number, videoHeight: number): PoseRecording {
+    return {
+      format: POSE_RECORDING_FORMAT,
+      version: POSE_RECORDING_VERSION,
+      workout: this.workout,
+      recordedAt: new Date().toISOString(),
+      videoWidth,
+      videoHeight,
+      frames: this.frames
+    };
+  }
+}
+
+const { fail, expectObject, expectArray, parseJson } = createValidator('Invalid pose recording');
+
+// Parses a recording file, throwing a readable error on bad input
+export const parsePoseRecording = (text: string): PoseRecording => {
+  const doc = expectObject(parseJson(text), 'file');
+  if (doc.format !== POSE_RECORDING_FORMAT) fail('format', `"${POSE_RECORDING_FORMAT}"`);
+  if (doc.version !== POSE_RECORDING_VERSION) throw new Error(`Unsupported pose recording version ${doc.version} (expected ${POSE_RECORDING_VERSION})`);
+  if (!isExerciseId(doc.workout)) fail('workout', 'a built-in exercise or a "custom:" exercise id');
+  if (!(doc.videoWidth > 0) || !(doc.videoHeight > 0)) fail('videoWidth and videoHeight', 'positive');
+  expectArray(doc.frames, 'frames').forEach((frame, i) => {
+    const f = expectObject(frame, `frames[${i}]`);
+    if (typeof f.t !== 'number' || !Array.isArray(f.lm) || f.lm.length % 4 !== 0) {
+      fail(`frames[${i}]`, 'an object with a numeric t and an lm array of [x, y, z, visibility] groups');
+    }
+    // A null or string value would replay as NaN angles
+    if (!f.lm.every((v: unknown) => typeof v === 'number' && Number.isFinite(v))) fail(`frames[${i}].lm`, 'finite numbers');
+  });
+  return doc as PoseRecording;
+};
@@ -0,0 +1,59 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { BodyProportions, CueEvent, ExerciseId, HoldStats, PoseRecording, RepEvent } from '../types';
+import { PoseAnalyzer } from './poseAnalyzer';
+import { unpackLandmarks } from './poseRecorder';
+
+// Plays a recording back in real time as a stand-in for detectForVideo
+export class ReplayCursor {
+  readonly recording: PoseRecording;
+  private startTime: number | null = null;
+  private index = 0;
+
+  constructor(recording: PoseRecording) {
+    this.recording = recording;
+  }
+
+  get done() {
+    return this.index >= this.recording.frames.length - 1;
+  }
+
+  frameAt(now: number): NormalizedLandmark[] | null {
+    const { frames } = this.recording;
+    if (frames.length === 0) return null;
+    if (this.startTime === null) this.startTime = now;
+    const elapsed = now - this.startTime;
+    while (this.index < frames.length - 1 && frames[this.index + 1].t <= elapsed) this.index++;
+    return unpackLandmarks(frames[this.index].lm);
+  }
+}
+
+export interface ReplayResult {
+  reps: RepEvent[];
+  cues: CueEvent[];
+  hold: HoldStats | null;
+}
+
+// Runs a recording through the analysis pipeline frame by frame, without a
+// browser or camera. Timestamps in the result are recording milliseconds.
+export const runRecording = (
+  recording: PoseRecording,
+  options: { workout?: ExerciseId; holdTargetSeconds?: number; calibration?: BodyProportions } = {}
+): ReplayResult => {
+  const result: ReplayResult = { reps: [], cues: [], hold: null };
+  let frameTime = 0;
+
+  const analyzer = new PoseAnalyzer({
+    onRep: (event) => result.reps.push(event),
+    onCueFired: (text) => result.cues.push({ text, source: 'heuristic', timestamp: frameTime }),
+    onHoldUpdate: (stats) => { result.hold = stats; }
+  });
+  analyzer.setCalibration(options.calibration ?? null);
+  analyzer.configure(options.workout ?? recording.workout, options.holdTargetSeconds);
+
+  for (const frame of recording.frames) {
+    frameTime = frame.t;
+    analyzer.process(unpackLandmarks(frame.lm), frame.t, true);
+  }
+  result.hold = analyzer.holdStats;
+  return result;
+};
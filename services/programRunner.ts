@@ -0,0 +1,112 @@
+import { ProgramBlock, ProgramProgress, WorkoutProgram } from '../types';
+
+interface ProgramRunnerConfig {
+  program: WorkoutProgram;
+  onProgress: (progress: ProgramProgress) => void;
+  // Fired when the next block's exercise takes over (at the start of the rest before it)
+  onBlockChange: (block: ProgramBlock, index: number) => void;
+  // Fired whenever a work set begins, so per-set counters can be reset
+  onSetStart?: (block: ProgramBlock, set: number) => void;
+  onComplete: () => void;
+}
+
+// Steps through a program's blocks and sets. Reps and hold time are fed in
+// from the analysis pipeline; rest periods are advanced by tick().
+export class ProgramRunner {
+  private config: ProgramRunnerConfig;
+  private progress: ProgramProgress = { blockIndex: 0, set: 1, phase: 'WORK', repsDone: 0, restEndsAt: null };
+  // Hold time is only trusted once it has been seen below target in this set,
+  // so a stale reading from before the hold timer was reset can't end it
+  private holdArmed = false;
+
+  constructor(config: ProgramRunnerConfig) {
+    this.config = config;
+  }
+
+  get state() {
+    return this.progress;
+  }
+
+  get block(): ProgramBlock {
+    return this.config.program.blocks[this.progress.blockIndex];
+  }
+
+  start() {
+    this.progress = { blockIndex: 0, set: 1, phase: 'WORK', repsDone: 0, restEndsAt: null };
+    this.config.onBlockChange(this.block, 0);
+    this.beginSet();
+  }
+
+  recordRep(timestamp: number) {
+    if (this.progress.phase !== 'WORK') return;
+    this.progress = { ...this.progress, repsDone: this.progress.repsDone + 1 };
+    this.emit();
+    const { targetReps } = this.block;
+    if (targetReps && this.progress.repsDone >= targetReps) this.completeSet(timestamp);
+  }
+
+  recordHold(validMs: number, timestamp: number) {
+    if (this.progress.phase !== 'WORK') return;
+    const { targetSeconds } = this.block;
+    if (!targetSeconds) return;
+    if (validMs < targetSeconds * 1000) this.holdArmed = true;
+    else if (this.holdArmed) this.completeSet(timestamp);
+  }
+
+  tick(timestamp: number) {
+    if (this.progress.phase === 'REST' && this.progress.restEndsAt !== null && timestamp >= this.progress.restEndsAt) {
+      this.beginSet();
+    }
+  }
+
+  // Ends the current rest early, or counts the current set as done
+  skip(timestamp: number) {
+    if (this.progress.phase === 'REST') this.beginSet();
+    else if (this.progress.phase === 'WORK') this.completeSet(timestamp);
+  }
+
+  // Moves on to the next block, resting first as after its last set. A rest
+  // before a block that hasn't started yet ends instead.
+  skipBlock(timestamp: number) {
+    if (this.progress.phase === 'DONE') return;
+    if (this.progress.phase === 'REST' && this.progress.set === 1) {
+      this.beginSet();
+      return;
+    }
+    this.progress = { ...this.progress, set: this.block.sets };
+    this.completeSet(timestamp);
+  }
+
+  private completeSet(timestamp: number) {
+    const { blocks } = this.config.program;
+    const block = this.block;
+    const lastSet = this.progress.set >= block.sets;
+
+    if (lastSet && this.progress.blockIndex >= blocks.length - 1) {
+      this.progress = { ...this.progress, phase: 'DONE', restEndsAt: null };
+      this.emit();
+      this.config.onComplete();
+      return;
+    }
+
+    const next = lastSet
+      ? { blockIndex: this.progress.blockIndex + 1, set: 1 }
+      : { blockIndex: this.progress.blockIndex, set: this.progress.set + 1 };
+    this.progress = { ...next, phase: 'REST', repsDone: 0, restEndsAt: timestamp + block.restSeconds * 1000 };
+    if (lastSet) this.config.onBlockChange(this.block, this.progress.blockIndex);
+
+    if (block.restSeconds <= 0) this.beginSet();
+    else this.emit();
+  }
+
+  private beginSet() {
+    this.progress = { ...this.progress, phase: 'WORK', repsDone: 0, restEndsAt: null };
+    this.holdArmed = false;
+    this.emit();
+    this.config.onSetStart?.(this.block, this.progress.set);
+  }
+
+  private emit() {
+    this.config.onProgress(this.progress);
+  }
+}
@@ -0,0 +1,92 @@
+import { ExerciseId, ProgramBlock, WorkoutProgram, WorkoutType } from '../types';
+import { getWorkout, isExerciseId } from './exerciseRegistry';
+import { createValidator } from '../utils/validation';
+
+const STORAGE_KEY = 'formfit.programs';
+
+export const createBlock = (workout: ExerciseId): ProgramBlock => {
+  const hold = getWorkout(workout).hold;
+  return {
+    id: crypto.randomUUID(),
+    workout,
+    sets: 3,
+    targetReps: hold ? undefined : 10,
+    targetSeconds: hold ? hold.targetSeconds : undefined,
+    restSeconds: 60
+  };
+};
+
+// Seeded the first time so there is something to start from
+const starterProgram = (): WorkoutProgram => ({
+  id: crypto.randomUUID(),
+  name: 'Full Body Starter',
+  updatedAt: Date.now(),
+  blocks: [
+    { ...createBlock(WorkoutType.SQUAT), targetReps: 12 },
+    { ...createBlock(WorkoutType.PUSHUP), targetReps: 8 },
+    { ...createBlock(WorkoutType.PLANK), sets: 2, targetSeconds: 30, restSeconds: 45 }
+  ]
+});
+
+const { isObject } = createValidator('Invalid program');
+
+const isPositiveOrUnset = (value: unknown) =>
+  value === undefined || (typeof value === 'number' && Number.isFinite(value) && value > 0);
+
+const isValidBlock = (block: unknown): block is ProgramBlock =>
+  isObject(block) &&
+  typeof block.id === 'string' &&
+  // Blocks may point at a custom exercise that was since removed; App reports that on start
+  isExerciseId(block.workout) &&
+  Number.isInteger(block.sets) && block.sets > 0 &&
+  isPositiveOrUnset(block.targetReps) &&
+  isPositiveOrUnset(block.targetSeconds) &&
+  typeof block.restSeconds === 'number' && block.restSeconds >= 0;
+
+const isValidProgram = (program: unknown): program is WorkoutProgram =>
+  isObject(program) &&
+  typeof program.id === 'string' &&
+  typeof program.name === 'string' &&
+  Array.isArray(program.blocks) && program.blocks.length > 0 && program.blocks.every(isValidBlock);
+
+// Programs are small and edited often, so they live in localStorage rather
+// than the IndexedDB session store
+export class ProgramStore {
+  list(): WorkoutProgram[] {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw === null) {
+      const programs = [starterProgram()];
+      this.write(programs);
+      return programs;
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      // A corrupt block would trip up ProgramRunner mid-workout, so its program is left out
+      return Array.isArray(parsed) ? parsed.filter(isValidProgram) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  save(program: WorkoutProgram): WorkoutProgram[] {
+    const saved = { ...program, updatedAt: Date.now() };
+    const programs = this.list();
+    const index = programs.findIndex(p => p.id === program.id);
+    if (index >= 0) programs[index] = saved;
+    else programs.push(saved);
+    this.write(programs);
+    return programs;
+  }
+
+  delete(id: string): WorkoutProgram[] {
+    const programs = this.list().filter(p => p.id !== id);
+    this.write(programs);
+    return programs;
+  }
+
+  private write(programs: WorkoutProgram[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(programs));
+  }
+}
+
+export const programStore = new ProgramStore();
@@ -0,0 +1,141 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { ExerciseId, RepEvent, RepPattern, RepPhase, TempoTarget } from '../types';
+import { calculateAngle, isVisible } from '../utils/poseUtils';
+import { TempoTracker } from './tempoTracker';
+
+interface RepCounterConfig {
+  workout: ExerciseId;
+  pattern: RepPattern;
+  tempo?: TempoTarget;
+  onRep: (event: RepEvent) => void;
+  onPhaseChange?: (phase: RepPhase) => void;
+  onTempoCue?: (cue: string) => void;
+}
+
+// Degrees the angle has to move past a threshold before we switch phase,
+// so landmark jitter around a boundary doesn't flip-flop the machine.
+const HYSTERESIS = 8;
+
+export class RepCounter {
+  private config: RepCounterConfig;
+  private phase: RepPhase | null = null;
+  private count = 0;
+  private repStartTime = 0;
+  private minAngle = 180;
+  // A rep that started from the closed end is back there but still settling
+  private repPending = false;
+  private tempo: TempoTracker;
+
+  constructor(config: RepCounterConfig) {
+    this.config = config;
+    this.tempo = new TempoTracker(config.pattern, config.tempo);
+  }
+
+  get reps() {
+    return this.count;
+  }
+
+  get currentPhase() {
+    return this.phase;
+  }
+
+  get jointSpeed() {
+    return this.tempo.speed;
+  }
+
+  reset() {
+    this.phase = null;
+    this.count = 0;
+    this.repStartTime = 0;
+    this.minAngle = 180;
+    this.repPending = false;
+    this.tempo.reset();
+  }
+
+  private beginRep(angle: number, timestamp: number) {
+    this.repStartTime = timestamp;
+    this.minAngle = angle;
+  }
+
+  private completeRep(timestamp: number) {
+    this.repPending = false;
+    this.count++;
+    const tempo = this.tempo.completeRep();
+    this.config.onRep({
+      count: this.count,
+      workout: this.config.workout,
+      timestamp,
+      durationMs: timestamp - this.repStartTime,
+      minAngle: Math.round(this.minAngle),
+      tempo
+    });
+    const cue = this.tempo.evaluate(tempo);
+    if (cue) this.config.onTempoCue?.(cue);
+  }
+
+  // Returns the aggregated joint angle, or null when the tracked joints aren't visible
+  measure(landmarks: NormalizedLandmark[]): number | null {
+    const angles: number[] = [];
+    for (const [a, b, c] of this.config.pattern.joints) {
+      if (isVisible(landmarks[a]) && isVisible(landmarks[b]) && isVisible(landmarks[c])) {
+        angles.push(calculateAngle(landmarks[a], landmarks[b], landmarks[c]));
+      }
+    }
+    if (angles.length === 0) return null;
+    if (this.config.pattern.aggregate === 'min') return Math.min(...angles);
+    return angles.reduce((sum, a) => sum + a, 0) / angles.length;
+  }
+
+  update(landmarks: NormalizedLandmark[], timestamp: number) {
+    const angle = this.measure(landmarks);
+    if (angle === null) return;
+
+    const { openAngle, closedAngle, start = 'OPEN' } = this.config.pattern;
+    let next = this.phase;
+    this.tempo.update(angle, this.phase, timestamp);
+    this.minAngle = Math.min(this.minAngle, angle);
+
+    // Turning back before reaching the far end from the start is a partial
+    // rep, and isn't counted
+    switch (this.phase) {
+      case null:
+        // Wait for the start position before counting anything
+        if (start === 'OPEN' ? angle >= openAngle : angle <= closedAngle) next = start;
+        break;
+      case 'OPEN':
+        if (angle < openAngle - HYSTERESIS) {
+          next = 'CLOSING';
+          if (start === 'OPEN') this.beginRep(angle, timestamp);
+        }
+        break;
+      case 'CLOSING':
+        if (angle <= closedAngle) {
+          next = 'CLOSED';
+          // Finished once the joint settles, so the whole lowering counts toward this rep
+          if (start === 'CLOSED') this.repPending = true;
+        } else if (angle >= openAngle) next = 'OPEN';
+        break;
+      case 'CLOSED':
+        if (angle > closedAngle + HYSTERESIS) {
+          if (this.repPending) this.completeRep(timestamp);
+          next = 'OPENING';
+          if (start === 'CLOSED') this.beginRep(angle, timestamp);
+        } else if (this.repPending && !this.tempo.moving) {
+          this.completeRep(timestamp);
+        }
+        break;
+      case 'OPENING':
+        if (angle <= closedAngle) next = 'CLOSED';
+        else if (angle >= openAngle) {
+          next = 'OPEN';
+          if (start === 'OPEN') this.completeRep(timestamp);
+        }
+        break;
+    }
+
+    if (next !== this.phase) {
+      this.phase = next;
+      if (next) this.config.onPhaseChange?.(next);
+    }
+  }
+}
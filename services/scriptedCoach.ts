@@ -0,0 +1,185 @@
+import { ExerciseId, MotionHint, PoseTelemetry } from '../types';
+import { createValidator } from '../utils/validation';
+import { getWorkout } from './exerciseRegistry';
+import { CoachAudio, CoachCallbacks, CoachError, CoachFrame, CoachProvider, FrameStats } from './coachProvider';
+
+export interface ScriptedLine {
+  // Time after connecting to say the line
+  atMs: number;
+  text: string;
+}
+
+interface ScriptedCoachConfig extends CoachCallbacks {
+  // Lines to play back; without one the coach cycles through the exercise tips
+  script?: ScriptedLine[];
+  // Reply to context sent by the app, or null to stay quiet; by default pauses
+  // and reconnects are acknowledged and questions answered with a tip
+  respond?: (context: string) => string | null;
+  // Simulated delay before connecting and before each reply
+  latencyMs?: number;
+  // Simulates a dropped connection this long after connecting
+  dropAfterMs?: number;
+}
+
+const TIP_INTERVAL_MS = 8000;
+// Rough speaking rate, so "speaking" lasts about as long as the line would
+const MS_PER_CHAR = 60;
+
+const { expectNumber, expectString, expectArray, expectObject, parseJson } = createValidator('Invalid coach script');
+
+// Parses a JSON array of { atMs, text } lines, throwing a readable error on bad input
+export const parseCoachScript = (text: string): ScriptedLine[] =>
+  expectArray(parseJson(text), 'script').map((line, i) => {
+    const l = expectObject(line, `script[${i}]`);
+    return { atMs: expectNumber(l.atMs, `script[${i}].atMs`), text: expectString(l.text, `script[${i}].text`) };
+  });
+
+// Dev options from the page URL: ?script=<url of a coach script> plays it back
+// instead of the tips, and ?drop=<ms> drops the connection that long after
+// each connect, e.g. to exercise reconnecting
+export const loadScriptedCoachOptions = async (search: string): Promise<Pick<ScriptedCoachConfig, 'script' | 'dropAfterMs'>> => {
+  const params = new URLSearchParams(search);
+  const options: Pick<ScriptedCoachConfig, 'script' | 'dropAfterMs'> = {};
+  const drop = params.get('drop');
+  if (drop !== null) options.dropAfterMs = expectNumber(Number(drop), 'drop');
+  const scriptUrl = params.get('script');
+  if (scriptUrl) {
+    const response = await fetch(scriptUrl);
+    if (!response.ok) throw new Error(`Couldn't load the coach script (${response.status})`);
+    options.script = parseCoachScript(await response.text());
+  }
+  return options;
+};
+
+// A coach that needs no API key or network: it plays back a script, or
+// rule-based lines from the exercise definition, through the same callbacks
+// as a live coach. Used for demos and for developing the session UI offline.
+export class ScriptedCoach implements CoachProvider {
+  private config: ScriptedCoachConfig;
+  private workout: ExerciseId | null = null;
+  private connected = false;
+  private tipIndex = 0;
+  private lastCue: string | null = null;
+  // Kept across reconnects, like the session it belongs to
+  private paused = false;
+  private timers = new Set<number>();
+  private tipInterval: number | null = null;
+
+  constructor(config: ScriptedCoachConfig) {
+    this.config = config;
+  }
+
+  async connect(workout: ExerciseId, _video: HTMLVideoElement) {
+    this.stop();
+    this.workout = workout;
+    this.later(this.config.latencyMs ?? 300, () => {
+      this.connected = true;
+      this.config.onConnect();
+
+      if (this.config.script) {
+        this.config.script.forEach(line => this.later(line.atMs, () => this.say(line.text)));
+      } else {
+        this.tipInterval = window.setInterval(() => this.sayNextTip(), TIP_INTERVAL_MS);
+      }
+
+      const { dropAfterMs } = this.config;
+      if (dropAfterMs !== undefined) {
+        this.later(dropAfterMs, () => {
+          this.stop();
+          this.config.onError(new CoachError('network', "Scripted connection drop"));
+          this.config.onDisconnect();
+        });
+      }
+    });
+  }
+
+  // Frames aren't looked at; the on-device form checks cover the video
+  sendFrame(_frame: CoachFrame) {}
+
+  // Nor is speech; questions arrive as context once recognized on the device
+  sendAudio(_chunk: CoachAudio) {}
+
+  setMotion(_motion: MotionHint) {}
+
+  get frameStats(): FrameStats {
+    return { frames: 0, bytes: 0 };
+  }
+
+  sendContext(text: string) {
+    if (!this.connected) return;
+    const reply = this.config.respond ? this.config.respond(text) : this.reply(text);
+    if (reply) this.later(this.config.latencyMs ?? 300, () => this.say(reply));
+  }
+
+  // Rule-based reply: repeat each new on-device cue, like a coach watching the numbers
+  sendTelemetry(sample: PoseTelemetry) {
+    if (this.paused || sample.cue === this.lastCue) return;
+    this.lastCue = sample.cue;
+    if (sample.cue) this.say(sample.cue);
+  }
+
+  setWorkout(workout: ExerciseId) {
+    this.workout = workout;
+    this.tipIndex = 0;
+    if (this.connected) this.say(`Next up: ${getWorkout(workout).name}.`);
+  }
+
+  async disconnect() {
+    this.stop();
+  }
+
+  private sayNextTip() {
+    if (this.paused) return;
+    const tip = this.nextTip();
+    if (tip) this.say(tip);
+  }
+
+  private nextTip() {
+    if (!this.workout) return null;
+    const { tips } = getWorkout(this.workout);
+    if (tips.length === 0) return null;
+    return tips[this.tipIndex++ % tips.length];
+  }
+
+  // The default reply to the app's context messages; anything else is a
+  // question the user asked out loud
+  private reply(context: string) {
+    if (context.startsWith('The user paused')) {
+      this.paused = true;
+      return "Paused. Take your time.";
+    }
+    if (context.startsWith('The user resumed')) {
+      this.paused = false;
+      return "Back to it.";
+    }
+    if (context.startsWith('The connection dropped')) return this.paused ? null : "I'm back, keep going.";
+    const tip = this.nextTip();
+    return tip ? `Focus on this: ${tip}` : "Keep going, you're doing well.";
+  }
+
+  private say(text: string) {
+    if (!this.connected) return;
+    this.config.onAudio?.(true);
+    this.config.onTranscription(text, 'model');
+    this.later(text.length * MS_PER_CHAR, () => {
+      this.config.onAudio?.(false);
+      this.config.onEvent?.({ type: 'turnComplete' });
+    });
+  }
+
+  private later(ms: number, fn: () => void) {
+    const timer = window.setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, ms);
+    this.timers.add(timer);
+  }
+
+  private stop() {
+    this.connected = false;
+    this.timers.forEach(timer => window.clearTimeout(timer));
+    this.timers.clear();
+    if (this.tipInterval) window.clearInterval(this.tipInterval);
+    this.tipInterval = null;
+  }
+}
@@ -0,0 +1,86 @@
+import { WorkoutSession } from '../types';
+import { createValidator } from '../utils/validation';
+
+const DB_NAME = 'formfit';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+// Bump when the shape of WorkoutSession changes and add a step to migrateSession
+export const SESSION_SCHEMA_VERSION = 4;
+
+const { expectObject } = createValidator('Invalid stored session');
+
+// Upgrades records written by older versions of the app to the current shape
+export const migrateSession = (record: unknown): WorkoutSession => {
+  const session = { ...expectObject(record, 'record') };
+  if (!session.schemaVersion) session.schemaVersion = 1;
+  if (session.schemaVersion < 2) {
+    // v2: sessions keep the coach transcript
+    session.transcript = [];
+    session.schemaVersion = 2;
+  }
+  if (session.schemaVersion < 3) {
+    // v3: structured reports from coach function calls
+    session.coachReports = [];
+    session.schemaVersion = 3;
+  }
+  if (session.schemaVersion < 4) {
+    // v4: hold stats per set instead of only the last set's
+    session.holds = session.hold ? [session.hold] : [];
+    delete session.hold;
+    session.schemaVersion = 4;
+  }
+  return session as WorkoutSession;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class SessionStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE)) {
+            const store = db.createObjectStore(STORE, { keyPath: 'id' });
+            store.createIndex('startTime', 'startTime');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(STORE, mode).objectStore(STORE);
+  }
+
+  async save(session: WorkoutSession) {
+    await requestToPromise((await this.store('readwrite')).put(session));
+  }
+
+  // Newest first
+  async list(): Promise<WorkoutSession[]> {
+    const records = await requestToPromise((await this.store('readonly')).index('startTime').getAll());
+    return records.map(migrateSession).reverse();
+  }
+
+  async delete(id: string) {
+    await requestToPromise((await this.store('readwrite')).delete(id));
+  }
+}
+
+export const sessionStore = new SessionStore();
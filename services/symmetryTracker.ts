@@ -0,0 +1,135 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { RepEvent, RepPattern, Side, SideRepMetrics } from '../types';
+import { calculateAngle, isVisible } from '../utils/poseUtils';
+
+// Left/right differences above this share of the larger side are flagged
+export const DEFAULT_IMBALANCE_PCT = 15;
+// A side that moved less than this share of the other side's range sat the rep out
+const WORKING_SIDE_SHARE = 0.5;
+// Uneven eccentric timing is only worth a cue on reps slower than this
+const MIN_TEMPO_MS = 400;
+// Unilateral averages are compared once each side has this many reps
+const MIN_SIDE_REPS = 2;
+// Samples older than this can't belong to the rep being tracked
+const MAX_WINDOW_MS = 30000;
+
+export const SIDES: Side[] = ['left', 'right'];
+
+export const sideLabel = (side: Side) => side === 'left' ? 'Left' : 'Right';
+
+// Difference between a and b as a percentage of the larger one
+export const percentDiff = (a: number, b: number) => {
+  const max = Math.max(Math.abs(a), Math.abs(b));
+  return max > 0 ? (Math.abs(a - b) / max) * 100 : 0;
+};
+
+export const supportsSymmetry = (pattern: RepPattern) =>
+  !!pattern.symmetry && (!!pattern.symmetry.joints || pattern.joints.length === 2);
+
+interface Sample {
+  t: number;
+  angle: number;
+}
+
+// Splits each counted rep into left and right metrics (range of motion and
+// tempo per side) and flags imbalances. Fed every analyzed frame; the rep
+// counter decides where reps start and end.
+export class SymmetryTracker {
+  private pattern: RepPattern;
+  private joints: [number, number, number][];
+  private samples: Record<Side, Sample[]> = { left: [], right: [] };
+  // Running totals of unilateral reps, to compare the sides' averages
+  private totals: Record<Side, { reps: number; rangeOfMotion: number }> = {
+    left: { reps: 0, rangeOfMotion: 0 },
+    right: { reps: 0, rangeOfMotion: 0 }
+  };
+  thresholdPct = DEFAULT_IMBALANCE_PCT;
+
+  constructor(pattern: RepPattern) {
+    this.pattern = pattern;
+    this.joints = pattern.symmetry?.joints ?? pattern.joints;
+  }
+
+  reset() {
+    this.samples = { left: [], right: [] };
+    SIDES.forEach(side => { this.totals[side] = { reps: 0, rangeOfMotion: 0 }; });
+  }
+
+  update(landmarks: NormalizedLandmark[], timestamp: number) {
+    SIDES.forEach((side, i) => {
+      const [a, b, c] = this.joints[i];
+      const samples = this.samples[side];
+      if (isVisible(landmarks[a]) && isVisible(landmarks[b]) && isVisible(landmarks[c])) {
+        samples.push({ t: timestamp, angle: calculateAngle(landmarks[a], landmarks[b], landmarks[c]) });
+      }
+      while (samples.length > 0 && samples[0].t < timestamp - MAX_WINDOW_MS) samples.shift();
+    });
+  }
+
+  private measureSide(side: Side, start: number, end: number): SideRepMetrics | null {
+    const window = this.samples[side].filter(s => s.t >= start && s.t <= end);
+    if (window.length < 2) return null;
+
+    let low = window[0];
+    let high = window[0];
+    for (const sample of window) {
+      if (sample.angle < low.angle) low = sample;
+      if (sample.angle > high.angle) high = sample;
+    }
+    // Time into and out of the far extreme from the start position
+    const fromClosed = this.pattern.start === 'CLOSED';
+    const peak = fromClosed ? high : low;
+    const toPeakMs = peak.t - start;
+    const fromPeakMs = end - peak.t;
+    const eccentricFirst = this.pattern.eccentric === (fromClosed ? 'OPENING' : 'CLOSING');
+    return {
+      minAngle: Math.round(low.angle),
+      rangeOfMotion: Math.round(high.angle - low.angle),
+      eccentricMs: Math.round(eccentricFirst ? toPeakMs : fromPeakMs),
+      concentricMs: Math.round(eccentricFirst ? fromPeakMs : toPeakMs)
+    };
+  }
+
+  // Attaches per-side metrics to a finished rep. Returns a cue when the
+  // sides are uneven by more than thresholdPct.
+  completeRep(event: RepEvent): { rep: RepEvent; cue: string | null } {
+    const start = event.timestamp - event.durationMs;
+    const left = this.measureSide('left', start, event.timestamp);
+    const right = this.measureSide('right', start, event.timestamp);
+    // The next rep starts after this one ended
+    SIDES.forEach(side => { this.samples[side] = this.samples[side].filter(s => s.t >= event.timestamp); });
+    if (!left || !right) return { rep: event, cue: null };
+
+    const sides = { left, right };
+    const rep: RepEvent = { ...event, sides };
+    const working = SIDES.filter(side => sides[side].rangeOfMotion >= WORKING_SIDE_SHARE * sides[side === 'left' ? 'right' : 'left'].rangeOfMotion);
+
+    if (this.pattern.symmetry?.mode === 'unilateral' && working.length === 1) {
+      const side = working[0];
+      rep.side = side;
+      this.totals[side].reps++;
+      this.totals[side].rangeOfMotion += sides[side].rangeOfMotion;
+      return { rep, cue: this.compareUnilateral() };
+    }
+
+    const romDiff = percentDiff(left.rangeOfMotion, right.rangeOfMotion);
+    if (romDiff > this.thresholdPct) {
+      const weaker = left.rangeOfMotion < right.rangeOfMotion ? 'left' : 'right';
+      return { rep, cue: `${sideLabel(weaker)} Side Short on Range` };
+    }
+    const slowest = Math.max(left.eccentricMs, right.eccentricMs);
+    if (slowest > MIN_TEMPO_MS && percentDiff(left.eccentricMs, right.eccentricMs) > this.thresholdPct) {
+      return { rep, cue: 'Keep Both Sides in Sync' };
+    }
+    return { rep, cue: null };
+  }
+
+  private compareUnilateral(): string | null {
+    const { left, right } = this.totals;
+    if (left.reps < MIN_SIDE_REPS || right.reps < MIN_SIDE_REPS) return null;
+    const leftAvg = left.rangeOfMotion / left.reps;
+    const rightAvg = right.rangeOfMotion / right.reps;
+    if (percentDiff(leftAvg, rightAvg) <= this.thresholdPct) return null;
+    return `${sideLabel(leftAvg < rightAvg ? 'left' : 'right')} Side Short on Range`;
+  }
+}
@@ -0,0 +1,102 @@
+import { RepPattern, RepPhase, RepTempo, TempoTarget } from '../types';
+import { MAX_FRAME_GAP_MS } from '../utils/poseUtils';
+
+// Angular speed (deg/s) below which the joint counts as paused
+const STILL_DEG_PER_SEC = 20;
+// Longer pauses at the start position (OPEN unless the pattern says otherwise)
+// are rest, not part of the rep
+const MAX_PAUSE_MS = 5000;
+// Measured/target ratios outside these bounds trigger a cue
+const TOO_FAST = 0.6;
+const TOO_SLOW = 3;
+
+export const formatTempo = (target: TempoTarget) =>
+  [target.lowering, target.bottom, target.lifting, ...(target.lockout !== undefined ? [target.lockout] : [])].join('-');
+
+export const timeUnderTension = (tempo: RepTempo) => tempo.loweringMs + tempo.bottomMs + tempo.liftingMs;
+
+export class TempoTracker {
+  private pattern: RepPattern;
+  private target?: TempoTarget;
+  private lastAngle: number | null = null;
+  private lastTime = 0;
+  private velocity = 0;
+  // Time buckets named by joint angle, mapped to lowering/lifting on completion
+  private closingMs = 0;
+  private openingMs = 0;
+  private closedPauseMs = 0;
+  private openPauseMs = 0;
+
+  constructor(pattern: RepPattern, target?: TempoTarget) {
+    this.pattern = pattern;
+    this.target = target;
+  }
+
+  reset() {
+    this.lastAngle = null;
+    this.velocity = 0;
+    this.clearBuckets();
+  }
+
+  // Smoothed angular speed in deg/s
+  get speed() {
+    return Math.abs(this.velocity);
+  }
+
+  // False once the joint has come to rest
+  get moving() {
+    return this.speed >= STILL_DEG_PER_SEC;
+  }
+
+  private clearBuckets() {
+    this.closingMs = 0;
+    this.openingMs = 0;
+    this.closedPauseMs = 0;
+    this.openPauseMs = 0;
+  }
+
+  update(angle: number, phase: RepPhase | null, timestamp: number) {
+    if (this.lastAngle !== null && phase !== null) {
+      const dt = timestamp - this.lastTime;
+      if (dt > 0 && dt < MAX_FRAME_GAP_MS) {
+        const instant = ((angle - this.lastAngle) / dt) * 1000;
+        this.velocity = this.velocity * 0.6 + instant * 0.4;
+
+        if (Math.abs(this.velocity) < STILL_DEG_PER_SEC) {
+          const midpoint = (this.pattern.openAngle + this.pattern.closedAngle) / 2;
+          const restsClosed = this.pattern.start === 'CLOSED';
+          if (phase === 'CLOSED' || (phase !== 'OPEN' && angle < midpoint)) {
+            this.closedPauseMs = restsClosed ? Math.min(this.closedPauseMs + dt, MAX_PAUSE_MS) : this.closedPauseMs + dt;
+          } else {
+            this.openPauseMs = restsClosed ? this.openPauseMs + dt : Math.min(this.openPauseMs + dt, MAX_PAUSE_MS);
+          }
+        } else if (this.velocity < 0) {
+          this.closingMs += dt;
+        } else {
+          this.openingMs += dt;
+        }
+      }
+    }
+    this.lastAngle = angle;
+    this.lastTime = timestamp;
+  }
+
+  // Closes out the current rep and starts timing the next one
+  completeRep(): RepTempo {
+    const tempo: RepTempo = this.pattern.eccentric === 'CLOSING'
+      ? { loweringMs: this.closingMs, bottomMs: this.closedPauseMs, liftingMs: this.openingMs, lockoutMs: this.openPauseMs }
+      : { loweringMs: this.openingMs, bottomMs: this.openPauseMs, liftingMs: this.closingMs, lockoutMs: this.closedPauseMs };
+    this.clearBuckets();
+    return tempo;
+  }
+
+  // Returns a coaching cue when the rep missed the target tempo
+  evaluate(tempo: RepTempo): string | null {
+    if (!this.target) return null;
+    const { lowering, bottom, lifting } = this.target;
+    if (tempo.loweringMs < lowering * 1000 * TOO_FAST) return 'Slow down the descent';
+    if (bottom > 0 && tempo.bottomMs < bottom * 1000 * TOO_FAST) return 'Pause at the bottom';
+    if (tempo.liftingMs > lifting * 1000 * TOO_SLOW) return 'Drive up with intent';
+    return null;
+  }
+}
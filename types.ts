@@ -4,14 +4,313 @@ export enum WorkoutType {
   PLANK = 'Plank',
   LUNGE = 'Lunge',
   BICEP_CURL = 'Bicep Curl',
-  TRICEP_EXTENSION = 'Tricep Extension'
+  TRICEP_EXTENSION = 'Tricep Extension',
+  DEADLIFT = 'Deadlift',
+  OVERHEAD_PRESS = 'Overhead Press',
+  GLUTE_BRIDGE = 'Glute Bridge',
+  SIDE_PLANK = 'Side Plank',
+  JUMPING_JACK = 'Jumping Jack'
+}
+
+// Built-in exercises use their WorkoutType; user-defined ones are namespaced
+export type ExerciseId = WorkoutType | `custom:${string}`;
+
+// Limb segments highlighted on the live camera overlay
+export type BodySegment = 'torso' | 'upperArm' | 'forearm' | 'thigh' | 'calf';
+// Muscle groups highlighted on the reference mannequin
+export type MuscleGroup = 'pecs' | 'abs' | 'delts' | 'biceps' | 'triceps' | 'glutes' | 'quads' | 'hamstrings' | 'calves';
+
+// Which way the user faces the camera, classified from shoulder/hip geometry
+export type BodyOrientation = 'FRONT' | 'THREE_QUARTER' | 'SIDE' | 'BACK';
+
+// Joints whose straight-limb angle is captured during calibration
+export type CalibratedJoint = 'elbow' | 'hip' | 'knee';
+
+// Body proportions measured in a calibration T-pose. Lengths are in torso
+// lengths (shoulder midpoint to hip midpoint) so they hold at any distance.
+export interface BodyProportions {
+  shoulderWidth: number;
+  segments: Record<Exclude<BodySegment, 'torso'>, number>;
+  // Angle each joint rests at when straight, e.g. 172 for a knee that doesn't lock out
+  baselineAngles: Record<CalibratedJoint, number>;
+}
+
+export interface BodyCalibration extends BodyProportions {
+  user: string;
+  capturedAt: number;
+}
+
+// Rep phases are named by joint angle, not by direction of travel:
+// OPEN is the start/lockout position, CLOSED is the bottom of the rep.
+export type RepPhase = 'OPEN' | 'CLOSING' | 'CLOSED' | 'OPENING';
+
+export type Side = 'left' | 'right';
+
+export interface SymmetryPattern {
+  // 'bilateral': both sides move together every rep.
+  // 'unilateral': one side works per rep (alternating or single-side sets)
+  mode: 'bilateral' | 'unilateral';
+  // [left, right] angle triples; defaults to the rep pattern's joints
+  joints?: [[number, number, number], [number, number, number]];
+}
+
+export interface RepPattern {
+  // Angle triples [a, b, c] measured at b, e.g. hip-knee-ankle
+  joints: [number, number, number][];
+  // 'avg' for bilateral movements, 'min' when one side may be working alone
+  aggregate: 'avg' | 'min';
+  openAngle: number;
+  closedAngle: number;
+  // Which direction of travel is the eccentric (lowering) half of the rep
+  eccentric: 'CLOSING' | 'OPENING';
+  // Where a set begins, e.g. 'CLOSED' for a press from the rack. A rep runs
+  // from here to the other end and back. Defaults to 'OPEN'.
+  start?: 'OPEN' | 'CLOSED';
+  labels: Record<RepPhase, string>;
+  // Compare left and right per rep. Without symmetry.joints, joints must be [left, right]
+  symmetry?: SymmetryPattern;
+}
+
+// Target seconds per phase, e.g. 3-1-1 is { lowering: 3, bottom: 1, lifting: 1 }
+export interface TempoTarget {
+  lowering: number;
+  bottom: number;
+  lifting: number;
+  lockout?: number;
+}
+
+export interface RepTempo {
+  loweringMs: number;
+  bottomMs: number;
+  liftingMs: number;
+  lockoutMs: number;
+}
+
+// A landmark index, or several indices averaged into a midpoint
+export type LandmarkRef = number | number[];
+export type Axis = 'x' | 'y' | 'z' | 'xy';
+
+// Reference length a threshold is multiplied by, so rules hold at any camera distance
+export type RuleScale = 'none' | 'body' | 'shoulderWidth' | { from: LandmarkRef; to: LandmarkRef; axis: Axis };
+
+export type RuleMetric =
+  | { type: 'angle'; points: [LandmarkRef, LandmarkRef, LandmarkRef] }
+  | { type: 'distance'; from: LandmarkRef; to: LandmarkRef; axis: Axis }
+  // Signed from[axis] - to[axis]; positive y means "from" is lower in the frame
+  | { type: 'relative-position'; from: LandmarkRef; to: LandmarkRef; axis: 'x' | 'y' | 'z' }
+  | { type: 'stability' }
+  // Angular speed (deg/s) of the rep pattern's joints, e.g. arms stalled mid-press
+  | { type: 'joint-speed' };
+
+export interface RuleCondition {
+  metric: RuleMetric;
+  op: 'gt' | 'lt';
+  value: number;
+  scale?: RuleScale;
+}
+
+export interface FormRule {
+  id: string;
+  cue: string;
+  // Highest priority firing rule wins
+  priority: number;
+  // All conditions must hold for the rule to fire
+  conditions: RuleCondition[];
+  requireVisible?: number[];
+  // Only evaluated from these camera views; omitted means any view
+  views?: BodyOrientation[];
+}
+
+// Isometric holds run a timer instead of counting reps
+export interface HoldPattern {
+  targetSeconds: number;
+  // All must hold for the user to count as "in position"
+  posture: RuleCondition[];
+  // Ids of form rules that pause the timer while they fire
+  breakRules: string[];
+}
+
+// A measurement streamed to the coach in each telemetry message. Angles are in
+// degrees; other metrics are divided by their scale, e.g. knee gap in shoulder widths.
+export interface TelemetryField {
+  // Short name used in the message, e.g. "kneeL"
+  key: string;
+  metric: RuleMetric;
+  scale?: RuleScale;
+}
+
+export type HoldStatus = 'WAITING' | 'HOLDING' | 'BROKEN';
+
+export interface HoldStats {
+  status: HoldStatus;
+  targetMs: number;
+  validMs: number;
+  breaks: number;
+  longestCleanMs: number;
 }
 
 export interface WorkoutDef {
-  id: WorkoutType;
+  id: ExerciseId;
   name: string;
   description: string;
   tips: string[];
+  targetSegments: BodySegment[];
+  targetMuscles: MuscleGroup[];
+  // Camera views the form checks are designed for; the user is prompted to turn otherwise
+  preferredViews?: BodyOrientation[];
+  // Loaded from a user-provided definition rather than built in
+  custom?: boolean;
+  repPattern?: RepPattern;
+  tempo?: TempoTarget;
+  hold?: HoldPattern;
+  rules: FormRule[];
+  // What the coach is sent about the pose; defaults to the rep pattern's joint angles
+  telemetry?: TelemetryField[];
+}
+
+// One side's share of a rep, measured on that side's joint triple
+export interface SideRepMetrics {
+  minAngle: number;
+  rangeOfMotion: number;
+  eccentricMs: number;
+  concentricMs: number;
+}
+
+export interface RepEvent {
+  count: number;
+  workout: ExerciseId;
+  timestamp: number;
+  durationMs: number;
+  minAngle: number;
+  tempo: RepTempo;
+  // Present when the pattern tracks symmetry and both sides were visible
+  sides?: Record<Side, SideRepMetrics>;
+  // The working side of a unilateral rep; unset when both sides moved
+  side?: Side;
+  // The coach's grade for this rep, when it reported one
+  coachQuality?: RepQuality;
+}
+
+// Snapshot of the measured pose, streamed to the coach alongside video frames
+export interface PoseTelemetry {
+  workout: ExerciseId;
+  // Keyed by TelemetryField.key; null while the landmarks involved aren't visible
+  metrics: Record<string, number | null>;
+  phase: RepPhase | null;
+  reps: number;
+  hold: HoldStats | null;
+  // The on-device form cue currently showing
+  cue: string | null;
+  view: BodyOrientation | null;
+}
+
+// How much the coached person is moving, for pacing the frames sent to the coach
+export type MotionLevel = 'ACTIVE' | 'STILL' | 'EMPTY';
+
+export interface MotionHint {
+  level: MotionLevel;
+  // Normalized (0-1) box around the visible landmarks, null when nobody is tracked
+  box: { x: number; y: number; width: number; height: number } | null;
+}
+
+export interface SetSummary {
+  index: number;
+  reps: number;
+  startTime: number;
+  endTime: number;
+  timeUnderTensionMs: number;
+}
+
+export type TrackingQuality = 'GOOD' | 'POOR' | 'LOST';
+
+// Milliseconds spent in each tracking quality while a session was active
+export type TrackingStats = Record<TrackingQuality, number>;
+
+export type RepQuality = 'good' | 'fair' | 'poor';
+export type SafetySeverity = 'low' | 'medium' | 'high';
+
+// Structured reports the coach makes through function calls, kept apart from
+// what it says
+export type CoachReport =
+  | { type: 'rep'; count: number; quality: RepQuality; timestamp: number }
+  | { type: 'safety'; severity: SafetySeverity; bodyPart: string; timestamp: number }
+  // 0-100 for the user's form over the recent reps
+  | { type: 'formScore'; score: number; timestamp: number };
+
+export interface CueEvent {
+  text: string;
+  // The coach provider that said it, or the on-device form checks
+  source: 'gemini' | 'scripted' | 'heuristic';
+  timestamp: number;
+}
+
+// Where a HUD cue came from, and how much it matters; the cue arbiter decides
+// what is on screen from these
+export type CueSource = 'safety' | 'coach' | 'heuristic' | 'rep' | 'system';
+export type CuePriority = 'critical' | 'high' | 'normal' | 'low';
+
+export interface HudCue {
+  text: string;
+  source: CueSource;
+  priority: CuePriority;
+  // Shown on the HUD next to the priority, e.g. "Coach Gemini"
+  label: string;
+}
+
+export interface WorkoutSession {
+  id: string;
+  schemaVersion: number;
+  workout: ExerciseId;
+  startTime: number;
+  endTime: number;
+  sets: SetSummary[];
+  reps: RepEvent[];
+  // One per set of a hold exercise, in order; empty for rep exercises
+  holds: HoldStats[];
+  cues: CueEvent[];
+  tracking: TrackingStats;
+  transcript: LogMessage[];
+  coachReports: CoachReport[];
+}
+
+export interface SideSummary {
+  reps: number;
+  avgRangeOfMotion: number;
+  avgEccentricMs: number;
+}
+
+export interface SymmetryReport {
+  left: SideSummary;
+  right: SideSummary;
+  // Differences as a percentage of the larger side
+  repsDiffPct: number;
+  rangeOfMotionDiffPct: number;
+  tempoDiffPct: number;
+  thresholdPct: number;
+  // Readable notes for every difference above thresholdPct
+  imbalances: string[];
+}
+
+export interface SessionReport {
+  durationMs: number;
+  totalReps: number;
+  sets: SetSummary[];
+  // Totals across every hold set, which are also listed on their own
+  hold: HoldStats | null;
+  holds: HoldStats[];
+  topCues: { text: string; count: number }[];
+  // Fraction of active time (0-1) per tracking quality
+  trackingShare: TrackingStats;
+  // Includes safety issues the coach flagged
+  safetyCues: CueEvent[];
+  // Null when the coach made no structured reports
+  coach: {
+    reps: number;
+    repQuality: Record<RepQuality, number>;
+    avgFormScore: number | null;
+  } | null;
+  // Null when no rep carried per-side metrics
+  symmetry: SymmetryReport | null;
 }
 
 export interface LogMessage {
@@ -23,4 +322,58 @@ export interface LogMessage {
 
 export interface AudioVisualizerData {
   volume: number;
-}
\ No newline at end of file
+}
+
+// Portable session document produced by "Export JSON" and accepted by "Import".
+// Times are epoch milliseconds except the transcript, which uses ISO strings.
+export interface SessionExport {
+  format: 'formfit-session';
+  version: 1;
+  exportedAt: string;
+  session: Omit<WorkoutSession, 'schemaVersion' | 'transcript'> & {
+    transcript: { id: string; role: LogMessage['role']; text: string; timestamp: string }[];
+  };
+}
+
+// Compact capture of raw PoseLandmarker output. Each frame packs the landmarks
+// flat as [x, y, z, visibility, ...]; an empty array means no pose was found.
+export interface PoseRecording {
+  format: 'formfit-pose';
+  version: 1;
+  workout: ExerciseId;
+  recordedAt: string;
+  videoWidth: number;
+  videoHeight: number;
+  // t is milliseconds since the first frame
+  frames: { t: number; lm: number[] }[];
+}
+
+// One exercise in a program. Rep blocks finish a set at targetReps,
+// hold blocks (workouts with a HoldPattern) at targetSeconds of valid hold.
+export interface ProgramBlock {
+  id: string;
+  workout: ExerciseId;
+  sets: number;
+  targetReps?: number;
+  targetSeconds?: number;
+  // Rest after each set, including before the next block
+  restSeconds: number;
+}
+
+export interface WorkoutProgram {
+  id: string;
+  name: string;
+  blocks: ProgramBlock[];
+  updatedAt: number;
+}
+
+export type ProgramPhase = 'WORK' | 'REST' | 'DONE';
+
+export interface ProgramProgress {
+  blockIndex: number;
+  // 1-based set within the current block
+  set: number;
+  phase: ProgramPhase;
+  repsDone: number;
+  restEndsAt: number | null;
+}
@@ -0,0 +1,96 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { BodyProportions, CalibratedJoint, LandmarkRef, RepPattern } from '../types';
+import { BodyMetrics, LANDMARK as L, calculateAngle, isVisible } from './poseUtils';
+
+type Limb = keyof BodyProportions['segments'];
+
+// [left, right] landmark pairs spanning each limb segment
+const SEGMENTS: Record<Limb, [number, number][]> = {
+  upperArm: [[L.LEFT_SHOULDER, L.LEFT_ELBOW], [L.RIGHT_SHOULDER, L.RIGHT_ELBOW]],
+  forearm: [[L.LEFT_ELBOW, L.LEFT_WRIST], [L.RIGHT_ELBOW, L.RIGHT_WRIST]],
+  thigh: [[L.LEFT_HIP, L.LEFT_KNEE], [L.RIGHT_HIP, L.RIGHT_KNEE]],
+  calf: [[L.LEFT_KNEE, L.LEFT_ANKLE], [L.RIGHT_KNEE, L.RIGHT_ANKLE]]
+};
+
+// [left, right] angle triples measured at each calibrated joint
+const JOINTS: Record<CalibratedJoint, [number, number, number][]> = {
+  elbow: [[L.LEFT_SHOULDER, L.LEFT_ELBOW, L.LEFT_WRIST], [L.RIGHT_SHOULDER, L.RIGHT_ELBOW, L.RIGHT_WRIST]],
+  hip: [[L.LEFT_SHOULDER, L.LEFT_HIP, L.LEFT_KNEE], [L.RIGHT_SHOULDER, L.RIGHT_HIP, L.RIGHT_KNEE]],
+  knee: [[L.LEFT_HIP, L.LEFT_KNEE, L.LEFT_ANKLE], [L.RIGHT_HIP, L.RIGHT_KNEE, L.RIGHT_ANKLE]]
+};
+
+const CALIBRATION_LANDMARKS = [
+  L.LEFT_SHOULDER, L.RIGHT_SHOULDER, L.LEFT_ELBOW, L.RIGHT_ELBOW, L.LEFT_WRIST, L.RIGHT_WRIST,
+  L.LEFT_HIP, L.RIGHT_HIP, L.LEFT_KNEE, L.RIGHT_KNEE, L.LEFT_ANKLE, L.RIGHT_ANKLE
+];
+
+// Joints that can't straighten past this are more likely mis-detected than real
+const MIN_BASELINE_ANGLE = 150;
+
+const length = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const midpoint = (a: NormalizedLandmark, b: NormalizedLandmark): NormalizedLandmark =>
+  ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2, visibility: Math.min(a.visibility ?? 0, b.visibility ?? 0) });
+
+const torsoLength = (landmarks: NormalizedLandmark[]) => length(
+  midpoint(landmarks[L.LEFT_SHOULDER], landmarks[L.RIGHT_SHOULDER]),
+  midpoint(landmarks[L.LEFT_HIP], landmarks[L.RIGHT_HIP])
+);
+
+// Measures one frame of the calibration pose, or null unless the whole body is visible
+export const measureProportions = (landmarks: NormalizedLandmark[]): BodyProportions | null => {
+  if (!CALIBRATION_LANDMARKS.every(idx => isVisible(landmarks[idx]))) return null;
+  const torso = torsoLength(landmarks);
+  if (torso === 0) return null;
+
+  const segmentRatio = (limb: Limb) =>
+    SEGMENTS[limb].reduce((sum, [a, b]) => sum + length(landmarks[a], landmarks[b]), 0) / 2 / torso;
+  const jointAngle = (joint: CalibratedJoint) =>
+    JOINTS[joint].reduce((sum, [a, b, c]) => sum + calculateAngle(landmarks[a], landmarks[b], landmarks[c]), 0) / 2;
+
+  return {
+    shoulderWidth: length(landmarks[L.LEFT_SHOULDER], landmarks[L.RIGHT_SHOULDER]) / torso,
+    segments: { upperArm: segmentRatio('upperArm'), forearm: segmentRatio('forearm'), thigh: segmentRatio('thigh'), calf: segmentRatio('calf') },
+    baselineAngles: { elbow: jointAngle('elbow'), hip: jointAngle('hip'), knee: jointAngle('knee') }
+  };
+};
+
+// Body size from the user's own proportions. Turning away or bending only
+// shortens segments on screen, so the largest torso length implied by any
+// visible segment is the closest to the real one.
+export const calibratedBody = (landmarks: NormalizedLandmark[], proportions: BodyProportions): BodyMetrics => {
+  const visible = (idx: number) => isVisible(landmarks[idx]);
+  let torso = [L.LEFT_SHOULDER, L.RIGHT_SHOULDER, L.LEFT_HIP, L.RIGHT_HIP].every(visible) ? torsoLength(landmarks) : 0;
+  (Object.keys(SEGMENTS) as Limb[]).forEach(limb => {
+    for (const [a, b] of SEGMENTS[limb]) {
+      if (visible(a) && visible(b)) torso = Math.max(torso, length(landmarks[a], landmarks[b]) / proportions.segments[limb]);
+    }
+  });
+  const shoulderWidth = torso * proportions.shoulderWidth;
+  return { shoulderWidth, torsoHeight: torso, bodyScale: (shoulderWidth + torso) / 2 };
+};
+
+const jointAt = (vertex: LandmarkRef): CalibratedJoint | null => {
+  const indices = typeof vertex === 'number' ? [vertex] : vertex;
+  const joint = (Object.keys(JOINTS) as CalibratedJoint[])
+    .find(j => indices.every(idx => JOINTS[j].some(triple => triple[1] === idx)));
+  return joint ?? null;
+};
+
+// Angles are written for a joint that straightens to 180°. Rescales one to
+// the user's own straight-limb angle at that joint; others pass through.
+export const calibrateAngle = (angle: number, vertex: LandmarkRef, proportions: BodyProportions): number => {
+  const joint = jointAt(vertex);
+  if (!joint) return angle;
+  const baseline = Math.min(180, Math.max(MIN_BASELINE_ANGLE, proportions.baselineAngles[joint]));
+  return angle * baseline / 180;
+};
+
+export const calibratePattern = (pattern: RepPattern, proportions: BodyProportions): RepPattern => {
+  const vertex = pattern.joints[0][1];
+  return {
+    ...pattern,
+    openAngle: calibrateAngle(pattern.openAngle, vertex, proportions),
+    closedAngle: calibrateAngle(pattern.closedAngle, vertex, proportions)
+  };
+};
@@ -0,0 +1,267 @@
+import { BodyOrientation, ExerciseId, FormRule, HoldPattern, LandmarkRef, RepPattern, RepPhase, RuleCondition, RuleMetric, RuleScale, SymmetryPattern, TelemetryField, TempoTarget, WorkoutDef } from '../types';
+import { BODY_SEGMENTS, MUSCLE_GROUPS } from '../constants';
+import { LANDMARK } from './poseUtils';
+import { createValidator } from './validation';
+
+/*
+ * User-defined exercises are plain JSON. Landmarks can be given by MediaPipe
+ * index (0-32) or by name ("LEFT_KNEE"), and an array of either is averaged
+ * into a midpoint. A file may hold one definition or an array of them.
+ *
+ * {
+ *   "id": "wall-sit",
+ *   "name": "Wall Sit",
+ *   "description": "Back flat against the wall, thighs parallel to the floor.",
+ *   "tips": ["Knees over ankles", "Press your back into the wall"],
+ *   "targetSegments": ["thigh"],
+ *   "targetMuscles": ["quads", "glutes"],
+ *   "hold": { "targetSeconds": 45, "posture": [ ...conditions ], "breakRules": ["too-high"] },
+ *   "rules": [{ "id": "too-high", "cue": "Sit Lower", "priority": 10, "conditions": [
+ *     { "metric": { "type": "angle", "points": ["LEFT_HIP", "LEFT_KNEE", "LEFT_ANKLE"] }, "op": "gt", "value": 110 }
+ *   ] }]
+ * }
+ *
+ * Rep exercises use "repPattern" instead of "hold":
+ *   { "joints": [["LEFT_HIP", "LEFT_KNEE", "LEFT_ANKLE"]], "aggregate": "avg",
+ *     "openAngle": 160, "closedAngle": 100, "eccentric": "CLOSING" }
+ *
+ * with "start": "CLOSED" for movements that begin at the closed end, like a
+ * press from the shoulders.
+ *
+ * and may compare left vs right with "symmetry": { "mode": "bilateral" } (or
+ * "unilateral" for one side per rep). "joints" then lists the left triple first
+ * and the right second, unless "symmetry" gives its own "joints" pair.
+ *
+ * Camera views are "FRONT", "THREE_QUARTER", "SIDE" or "BACK". A rule with
+ * "views" only runs from those views, and "preferredViews" on the definition
+ * prompts the user to turn when the camera sees them from another angle.
+ *
+ * "telemetry" lists what the coach is told about the pose each second, as
+ * metrics with an optional scale (defaults to the rep pattern's joint angles):
+ *   [{ "key": "kneeL", "metric": { "type": "angle", "points": ["LEFT_HIP", "LEFT_KNEE", "LEFT_ANKLE"] } }]
+ */
+
+export const CUSTOM_PREFIX = 'custom:';
+
+const { fail, isObject, expectNumber, expectString, expectArray, expectObject, expectOneOf, parseJson } = createValidator('Invalid exercise definition');
+
+const LANDMARK_NAMES = Object.keys(LANDMARK) as (keyof typeof LANDMARK)[];
+const METRIC_TYPES = ['angle', 'distance', 'relative-position', 'stability', 'joint-speed'] as const;
+const AXES = ['x', 'y', 'z', 'xy'] as const;
+const PHASES: RepPhase[] = ['OPEN', 'CLOSING', 'CLOSED', 'OPENING'];
+const VIEWS: BodyOrientation[] = ['FRONT', 'THREE_QUARTER', 'SIDE', 'BACK'];
+const DEFAULT_LABELS: Record<RepPhase, string> = { OPEN: 'Start', CLOSING: 'Lowering', CLOSED: 'Bottom', OPENING: 'Returning' };
+
+const parseIndex = (value: unknown, path: string): number => {
+  if (typeof value === 'string') {
+    if (!(value in LANDMARK)) fail(path, `a landmark index or one of ${LANDMARK_NAMES.join(', ')}`);
+    return LANDMARK[value as keyof typeof LANDMARK];
+  }
+  if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > 32) fail(path, 'a landmark index from 0 to 32 or a landmark name');
+  return value as number;
+};
+
+const parseLandmark = (value: unknown, path: string): LandmarkRef => {
+  if (!Array.isArray(value)) return parseIndex(value, path);
+  if (value.length === 0) fail(path, 'a non-empty list of landmarks');
+  return value.map((v, i) => parseIndex(v, `${path}[${i}]`));
+};
+
+const parseMetric = (value: unknown, path: string): RuleMetric => {
+  const m = expectObject(value, path);
+  const type = expectOneOf(m.type, `${path}.type`, METRIC_TYPES);
+  switch (type) {
+    case 'angle': {
+      const points = expectArray(m.points, `${path}.points`);
+      if (points.length !== 3) fail(`${path}.points`, 'exactly 3 landmarks');
+      return { type, points: points.map((p, i) => parseLandmark(p, `${path}.points[${i}]`)) as [LandmarkRef, LandmarkRef, LandmarkRef] };
+    }
+    case 'distance':
+      return { type, from: parseLandmark(m.from, `${path}.from`), to: parseLandmark(m.to, `${path}.to`), axis: expectOneOf(m.axis, `${path}.axis`, AXES) };
+    case 'relative-position':
+      return { type, from: parseLandmark(m.from, `${path}.from`), to: parseLandmark(m.to, `${path}.to`), axis: expectOneOf(m.axis, `${path}.axis`, ['x', 'y', 'z'] as const) };
+    case 'stability':
+    case 'joint-speed':
+      return { type };
+  }
+};
+
+const parseScale = (value: unknown, path: string): RuleScale | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string') return expectOneOf(value, path, ['none', 'body', 'shoulderWidth'] as const);
+  const s = expectObject(value, path);
+  return { from: parseLandmark(s.from, `${path}.from`), to: parseLandmark(s.to, `${path}.to`), axis: expectOneOf(s.axis, `${path}.axis`, AXES) };
+};
+
+const parseCondition = (value: unknown, path: string): RuleCondition => {
+  const c = expectObject(value, path);
+  const condition: RuleCondition = {
+    metric: parseMetric(c.metric, `${path}.metric`),
+    op: expectOneOf(c.op, `${path}.op`, ['gt', 'lt'] as const),
+    value: expectNumber(c.value, `${path}.value`)
+  };
+  const scale = parseScale(c.scale, `${path}.scale`);
+  if (scale) condition.scale = scale;
+  return condition;
+};
+
+const parseConditions = (value: unknown, path: string) => {
+  const list = expectArray(value, path);
+  if (list.length === 0) fail(path, 'a non-empty array');
+  return list.map((c, i) => parseCondition(c, `${path}[${i}]`));
+};
+
+const parseViews = (value: unknown, path: string): BodyOrientation[] =>
+  expectArray(value, path).map((v, i) => expectOneOf(v, `${path}[${i}]`, VIEWS));
+
+const parseRule = (value: unknown, path: string): FormRule => {
+  const r = expectObject(value, path);
+  const rule: FormRule = {
+    id: expectString(r.id, `${path}.id`),
+    cue: expectString(r.cue, `${path}.cue`),
+    priority: expectNumber(r.priority ?? 0, `${path}.priority`),
+    conditions: parseConditions(r.conditions, `${path}.conditions`)
+  };
+  if (r.requireVisible !== undefined) {
+    rule.requireVisible = expectArray(r.requireVisible, `${path}.requireVisible`).map((v, i) => parseIndex(v, `${path}.requireVisible[${i}]`));
+  }
+  if (r.views !== undefined) rule.views = parseViews(r.views, `${path}.views`);
+  return rule;
+};
+
+const parseTelemetryField = (value: unknown, path: string): TelemetryField => {
+  const f = expectObject(value, path);
+  const key = expectString(f.key, `${path}.key`);
+  if (!/^[A-Za-z][A-Za-z0-9]*$/.test(key)) fail(`${path}.key`, 'letters and digits (e.g. "kneeL")');
+  const telemetryField: TelemetryField = { key, metric: parseMetric(f.metric, `${path}.metric`) };
+  const scale = parseScale(f.scale, `${path}.scale`);
+  if (scale) telemetryField.scale = scale;
+  return telemetryField;
+};
+
+const parseTriple = (value: unknown, path: string): [number, number, number] => {
+  const triple = expectArray(value, path);
+  if (triple.length !== 3) fail(path, 'exactly 3 landmarks');
+  return triple.map((v, k) => parseIndex(v, `${path}[${k}]`)) as [number, number, number];
+};
+
+const parseSymmetry = (value: unknown, path: string, jointCount: number): SymmetryPattern => {
+  const s = expectObject(value, path);
+  const symmetry: SymmetryPattern = { mode: expectOneOf(s.mode, `${path}.mode`, ['bilateral', 'unilateral'] as const) };
+  if (s.joints !== undefined) {
+    const joints = expectArray(s.joints, `${path}.joints`);
+    if (joints.length !== 2) fail(`${path}.joints`, 'a [left, right] pair of landmark triples');
+    symmetry.joints = [parseTriple(joints[0], `${path}.joints[0]`), parseTriple(joints[1], `${path}.joints[1]`)];
+  } else if (jointCount !== 2) {
+    fail(`${path}.joints`, 'given when the rep pattern does not have exactly 2 (left, right) joints');
+  }
+  return symmetry;
+};
+
+const parseRepPattern = (value: unknown, path: string): RepPattern => {
+  const p = expectObject(value, path);
+  const joints = expectArray(p.joints, `${path}.joints`);
+  if (joints.length === 0) fail(`${path}.joints`, 'a non-empty array');
+  const openAngle = expectNumber(p.openAngle, `${path}.openAngle`);
+  const closedAngle = expectNumber(p.closedAngle, `${path}.closedAngle`);
+  if (closedAngle >= openAngle) fail(`${path}.closedAngle`, `smaller than openAngle (${openAngle})`);
+
+  const labels = { ...DEFAULT_LABELS };
+  if (p.labels !== undefined) {
+    const l = expectObject(p.labels, `${path}.labels`);
+    PHASES.forEach(phase => {
+      if (l[phase] !== undefined) labels[phase] = expectString(l[phase], `${path}.labels.${phase}`);
+    });
+  }
+
+  const pattern: RepPattern = {
+    joints: joints.map((j, i) => parseTriple(j, `${path}.joints[${i}]`)),
+    aggregate: expectOneOf(p.aggregate ?? 'avg', `${path}.aggregate`, ['avg', 'min'] as const),
+    openAngle,
+    closedAngle,
+    eccentric: expectOneOf(p.eccentric ?? 'CLOSING', `${path}.eccentric`, ['CLOSING', 'OPENING'] as const),
+    labels
+  };
+  if (p.start !== undefined) pattern.start = expectOneOf(p.start, `${path}.start`, ['OPEN', 'CLOSED'] as const);
+  if (p.symmetry !== undefined) pattern.symmetry = parseSymmetry(p.symmetry, `${path}.symmetry`, joints.length);
+  return pattern;
+};
+
+const parseTempo = (value: unknown, path: string): TempoTarget => {
+  const t = expectObject(value, path);
+  const tempo: TempoTarget = {
+    lowering: expectNumber(t.lowering, `${path}.lowering`),
+    bottom: expectNumber(t.bottom, `${path}.bottom`),
+    lifting: expectNumber(t.lifting, `${path}.lifting`)
+  };
+  if (t.lockout !== undefined) tempo.lockout = expectNumber(t.lockout, `${path}.lockout`);
+  return tempo;
+};
+
+const parseHold = (value: unknown, path: string, rules: FormRule[]): HoldPattern => {
+  const h = expectObject(value, path);
+  const targetSeconds = expectNumber(h.targetSeconds, `${path}.targetSeconds`);
+  if (targetSeconds <= 0) fail(`${path}.targetSeconds`, 'positive');
+  const breakRules = expectArray(h.breakRules ?? [], `${path}.breakRules`).map((id, i) => {
+    const ruleId = expectString(id, `${path}.breakRules[${i}]`);
+    if (!rules.some(rule => rule.id === ruleId)) fail(`${path}.breakRules[${i}]`, `the id of one of this exercise's rules (got "${ruleId}")`);
+    return ruleId;
+  });
+  return { targetSeconds, posture: parseConditions(h.posture, `${path}.posture`), breakRules };
+};
+
+const parseDefinition = (value: unknown, path: string): WorkoutDef => {
+  const d = expectObject(value, path);
+  const slug = expectString(d.id, `${path}.id`);
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(slug)) fail(`${path}.id`, 'lowercase letters, digits and dashes (e.g. "wall-sit")');
+
+  const rules = expectArray(d.rules ?? [], `${path}.rules`).map((r, i) => parseRule(r, `${path}.rules[${i}]`));
+  const def: WorkoutDef = {
+    id: `${CUSTOM_PREFIX}${slug}` as ExerciseId,
+    name: expectString(d.name, `${path}.name`),
+    description: expectString(d.description ?? '', `${path}.description`),
+    tips: expectArray(d.tips ?? [], `${path}.tips`).map((t, i) => expectString(t, `${path}.tips[${i}]`)),
+    targetSegments: expectArray(d.targetSegments ?? [], `${path}.targetSegments`).map((s, i) => expectOneOf(s, `${path}.targetSegments[${i}]`, BODY_SEGMENTS)),
+    targetMuscles: expectArray(d.targetMuscles ?? [], `${path}.targetMuscles`).map((m, i) => expectOneOf(m, `${path}.targetMuscles[${i}]`, MUSCLE_GROUPS)),
+    custom: true,
+    rules
+  };
+
+  if (d.repPattern !== undefined && d.hold !== undefined) fail(path, 'either a rep exercise ("repPattern") or a hold ("hold"), not both');
+  if (d.repPattern !== undefined) def.repPattern = parseRepPattern(d.repPattern, `${path}.repPattern`);
+  if (d.hold !== undefined) def.hold = parseHold(d.hold, `${path}.hold`, rules);
+  if (d.preferredViews !== undefined) def.preferredViews = parseViews(d.preferredViews, `${path}.preferredViews`);
+  if (d.telemetry !== undefined) {
+    def.telemetry = expectArray(d.telemetry, `${path}.telemetry`).map((f, i) => parseTelemetryField(f, `${path}.telemetry[${i}]`));
+  }
+  if (d.tempo !== undefined) {
+    if (!def.repPattern) fail(`${path}.tempo`, 'used together with "repPattern"');
+    def.tempo = parseTempo(d.tempo, `${path}.tempo`);
+  }
+  return def;
+};
+
+// Parses one definition or an array of them, throwing a readable error on bad input
+export const parseExerciseDefinitions = (text: string): WorkoutDef[] => {
+  const doc = parseJson(text);
+  if (Array.isArray(doc) && doc.length === 0) fail('exercises', 'at least one exercise');
+  const defs = Array.isArray(doc)
+    ? doc.map((d, i) => parseDefinition(d, `exercises[${i}]`))
+    : [parseDefinition(isObject(doc) ? doc : expectObject(doc, 'file'), 'exercise')];
+
+  const seen = new Set<string>();
+  defs.forEach((def, i) => {
+    if (seen.has(def.id)) fail(`exercises[${i}].id`, `unique (duplicate "${def.id.slice(CUSTOM_PREFIX.length)}")`);
+    seen.add(def.id);
+  });
+  return defs;
+};
+
+// Re-checks a definition the registry saved, which is stored already parsed
+// under its prefixed id, so one edited by hand can't reach the analysis
+export const parseStoredExercise = (value: unknown): WorkoutDef => {
+  const d = expectObject(value, 'exercise');
+  const id = expectString(d.id, 'exercise.id');
+  if (!id.startsWith(CUSTOM_PREFIX)) fail('exercise.id', `prefixed with "${CUSTOM_PREFIX}"`);
+  return parseDefinition({ ...d, id: id.slice(CUSTOM_PREFIX.length) }, 'exercise');
+};
@@ -0,0 +1,136 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { BodyOrientation, BodyProportions, FormRule, LandmarkRef, RuleCondition, RuleMetric, RuleScale, Axis } from '../types';
+import { BodyMetrics, calculateAngle, isVisible, measureBody } from './poseUtils';
+import { calibrateAngle, calibratedBody } from './calibration';
+
+export interface RuleContext {
+  stabilityScore: number;
+  // Angular speed (deg/s) of the rep pattern's joints; 0 for exercises without one
+  jointSpeed?: number;
+  // Current camera view; rules restricted to certain views are skipped while it is unknown
+  orientation?: BodyOrientation | null;
+  // The user's calibrated proportions; without them body size is estimated per frame
+  calibration?: BodyProportions | null;
+}
+
+export const ruleAppliesToView = (rule: FormRule, orientation: BodyOrientation | null | undefined) =>
+  !rule.views || (!!orientation && rule.views.includes(orientation));
+
+// Below this the person is too small (or too far) in frame to judge form
+const MIN_BODY_SCALE = 0.02;
+
+const resolvePoint = (landmarks: NormalizedLandmark[], ref: LandmarkRef): NormalizedLandmark => {
+  if (typeof ref === 'number') return landmarks[ref];
+  const n = ref.length;
+  return ref.reduce(
+    (acc, idx) => ({
+      x: acc.x + landmarks[idx].x / n,
+      y: acc.y + landmarks[idx].y / n,
+      z: acc.z + landmarks[idx].z / n,
+      visibility: Math.min(acc.visibility ?? 1, landmarks[idx].visibility ?? 0)
+    }),
+    { x: 0, y: 0, z: 0, visibility: 1 } as NormalizedLandmark
+  );
+};
+
+const distanceOnAxis = (a: NormalizedLandmark, b: NormalizedLandmark, axis: Axis) => {
+  if (axis === 'xy') return Math.hypot(a.x - b.x, a.y - b.y);
+  return Math.abs(a[axis] - b[axis]);
+};
+
+export const measureMetric = (metric: RuleMetric, landmarks: NormalizedLandmark[], ctx: RuleContext): number => {
+  switch (metric.type) {
+    case 'angle': {
+      const [a, b, c] = metric.points.map(ref => resolvePoint(landmarks, ref));
+      return calculateAngle(a, b, c);
+    }
+    case 'distance':
+      return distanceOnAxis(resolvePoint(landmarks, metric.from), resolvePoint(landmarks, metric.to), metric.axis);
+    case 'relative-position':
+      return resolvePoint(landmarks, metric.from)[metric.axis] - resolvePoint(landmarks, metric.to)[metric.axis];
+    case 'stability':
+      return ctx.stabilityScore;
+    case 'joint-speed':
+      return ctx.jointSpeed ?? 0;
+  }
+};
+
+const measureBodyFor = (landmarks: NormalizedLandmark[], ctx: RuleContext): BodyMetrics =>
+  ctx.calibration ? calibratedBody(landmarks, ctx.calibration) : measureBody(landmarks);
+
+const resolveScale = (scale: RuleScale | undefined, landmarks: NormalizedLandmark[], body: BodyMetrics): number => {
+  if (!scale || scale === 'none') return 1;
+  if (scale === 'body') return body.bodyScale;
+  if (scale === 'shoulderWidth') return body.shoulderWidth;
+  return distanceOnAxis(resolvePoint(landmarks, scale.from), resolvePoint(landmarks, scale.to), scale.axis);
+};
+
+const metricLandmarks = (metric: RuleMetric): number[] => {
+  switch (metric.type) {
+    case 'angle':
+      return metric.points.flat();
+    case 'distance':
+    case 'relative-position':
+      return [metric.from, metric.to].flat();
+    case 'stability':
+    case 'joint-speed':
+      return [];
+  }
+};
+
+// A metric divided by its scale, e.g. knee gap in shoulder widths. Null when a
+// landmark it reads isn't visible or the scale collapses to zero.
+export const measureScaled = (
+  metric: RuleMetric,
+  scale: RuleScale | undefined,
+  landmarks: NormalizedLandmark[],
+  ctx: RuleContext
+): number | null => {
+  if (!metricLandmarks(metric).every(idx => isVisible(landmarks[idx]))) return null;
+  const divisor = resolveScale(scale, landmarks, measureBodyFor(landmarks, ctx));
+  if (!(divisor > 0)) return null;
+  return measureMetric(metric, landmarks, ctx) / divisor;
+};
+
+export const checkCondition = (
+  condition: RuleCondition,
+  landmarks: NormalizedLandmark[],
+  body: BodyMetrics,
+  ctx: RuleContext
+): boolean => {
+  const measured = measureMetric(condition.metric, landmarks, ctx);
+  const value = condition.metric.type === 'angle' && ctx.calibration
+    ? calibrateAngle(condition.value, condition.metric.points[1], ctx.calibration)
+    : condition.value;
+  const threshold = value * resolveScale(condition.scale, landmarks, body);
+  return condition.op === 'gt' ? measured > threshold : measured < threshold;
+};
+
+// Returns the highest priority rule whose conditions all hold, or null when form looks fine
+export const evaluateFormRules = (
+  rules: FormRule[],
+  landmarks: NormalizedLandmark[],
+  ctx: RuleContext
+): FormRule | null => {
+  const body = measureBodyFor(landmarks, ctx);
+  if (body.bodyScale < MIN_BODY_SCALE) return null;
+
+  const ordered = [...rules].sort((a, b) => b.priority - a.priority);
+  for (const rule of ordered) {
+    if (!ruleAppliesToView(rule, ctx.orientation)) continue;
+    if (rule.requireVisible && !rule.requireVisible.every(idx => isVisible(landmarks[idx]))) continue;
+    if (rule.conditions.every(c => checkCondition(c, landmarks, body, ctx))) return rule;
+  }
+  return null;
+};
+
+// True when every condition holds, e.g. to detect that the user is in a starting posture
+export const conditionsHold = (
+  conditions: RuleCondition[],
+  landmarks: NormalizedLandmark[],
+  ctx: RuleContext
+): boolean => {
+  const body = measureBodyFor(landmarks, ctx);
+  if (body.bodyScale < MIN_BODY_SCALE) return false;
+  return conditions.every(c => checkCondition(c, landmarks, body, ctx));
+};
@@ -0,0 +1,5 @@
+// play() rejects when autoplay is blocked, the source can't be decoded or it
+// changes mid-load
+export const playVideo = (video: HTMLVideoElement) => {
+  video.play().catch(e => console.error("Failed to play video", e));
+};
@@ -0,0 +1,151 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { BodyOrientation } from '../types';
+
+// MediaPipe Pose landmark indices used by the heuristics
+export const LANDMARK = {
+  NOSE: 0,
+  LEFT_EAR: 7,
+  RIGHT_EAR: 8,
+  LEFT_SHOULDER: 11,
+  RIGHT_SHOULDER: 12,
+  LEFT_ELBOW: 13,
+  RIGHT_ELBOW: 14,
+  LEFT_WRIST: 15,
+  RIGHT_WRIST: 16,
+  LEFT_HIP: 23,
+  RIGHT_HIP: 24,
+  LEFT_KNEE: 25,
+  RIGHT_KNEE: 26,
+  LEFT_ANKLE: 27,
+  RIGHT_ANKLE: 28,
+  LEFT_HEEL: 29,
+  RIGHT_HEEL: 30,
+  LEFT_FOOT_INDEX: 31,
+  RIGHT_FOOT_INDEX: 32
+} as const;
+
+// Frames further apart than this had a tracking dropout between them, so the
+// gap isn't counted as time spent in any pose
+export const MAX_FRAME_GAP_MS = 250;
+
+// Linear Interpolation for single values
+export const lerp = (start: number, end: number, factor: number) => start + (end - start) * factor;
+
+export const isVisible = (lm: NormalizedLandmark | undefined, threshold = 0.5) => !!lm && (lm.visibility ?? 0) > threshold;
+
+// Utility to calculate 2D angle between three points
+export const calculateAngle = (a: NormalizedLandmark, b: NormalizedLandmark, c: NormalizedLandmark): number => {
+    const radians = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(a.y - b.y, a.x - b.x);
+    let angle = Math.abs(radians * 180.0 / Math.PI);
+    if (angle > 180.0) angle = 360.0 - angle;
+    return angle;
+};
+
+export interface BodyMetrics {
+  shoulderWidth: number;
+  torsoHeight: number;
+  bodyScale: number;
+}
+
+// Rough per-frame body size used to scale thresholds to camera distance
+export const measureBody = (landmarks: NormalizedLandmark[]): BodyMetrics => {
+    const leftShoulder = landmarks[LANDMARK.LEFT_SHOULDER]; const rightShoulder = landmarks[LANDMARK.RIGHT_SHOULDER];
+    const leftHip = landmarks[LANDMARK.LEFT_HIP]; const rightHip = landmarks[LANDMARK.RIGHT_HIP];
+    const shoulderWidth = Math.abs(leftShoulder.x - rightShoulder.x);
+    const torsoHeight = Math.abs(((leftShoulder.y + rightShoulder.y) / 2) - ((leftHip.y + rightHip.y) / 2));
+    return { shoulderWidth, torsoHeight, bodyScale: (shoulderWidth + torsoHeight) / 2 };
+};
+
+// Yaw (degrees) of the shoulder and hip lines away from the image plane
+// below which the user faces the camera, and above which they are side-on
+const FACING_MAX_YAW = 25;
+const SIDE_MIN_YAW = 60;
+
+// Classifies which way the user faces the camera. The shoulder and hip lines
+// lie in the image plane when facing it and point into the scene (z) when
+// side-on. Null when the torso isn't visible.
+export const classifyOrientation = (landmarks: NormalizedLandmark[]): BodyOrientation | null => {
+    const pairs = [[LANDMARK.LEFT_SHOULDER, LANDMARK.RIGHT_SHOULDER], [LANDMARK.LEFT_HIP, LANDMARK.RIGHT_HIP]]
+        .filter(([l, r]) => isVisible(landmarks[l]) && isVisible(landmarks[r]));
+    if (pairs.length === 0) return null;
+
+    let inPlane = 0, depth = 0, dx = 0, dy = 0;
+    pairs.forEach(([l, r]) => {
+        const left = landmarks[l]; const right = landmarks[r];
+        dx += left.x - right.x;
+        dy += left.y - right.y;
+        inPlane += Math.hypot(left.x - right.x, left.y - right.y);
+        depth += Math.abs(left.z - right.z);
+    });
+
+    const yaw = Math.atan2(depth, inPlane) * 180 / Math.PI;
+    if (yaw > SIDE_MIN_YAW) return 'SIDE';
+    if (yaw > FACING_MAX_YAW) return 'THREE_QUARTER';
+    // Facing the camera the user's left side appears on the image right. When
+    // the lines run vertically (lying on one side) fall back to the face.
+    const facingAway = Math.abs(dx) > Math.abs(dy) ? dx < 0 : !isVisible(landmarks[LANDMARK.NOSE]);
+    return facingAway ? 'BACK' : 'FRONT';
+};
+
+// Velocity-adaptive smoothing: heavy filtering when still, near-raw when moving fast
+export const adaptiveSmoothLandmarks = (
+    current: NormalizedLandmark[], 
+    prev: NormalizedLandmark[] | null
+): NormalizedLandmark[] => {
+    if (!prev) return current;
+
+    const coreIndices = [11, 12, 23, 24]; // Shoulders and Hips
+    let totalCoreMovement = 0;
+    let count = 0;
+    
+    coreIndices.forEach(idx => {
+        if (current[idx] && prev[idx]) {
+           totalCoreMovement += Math.hypot(current[idx].x - prev[idx].x, current[idx].y - prev[idx].y);
+           count++;
+        }
+    });
+    const globalVelocity = count > 0 ? totalCoreMovement / count : 0;
+
+    return current.map((curr, i) => {
+        const p = prev[i];
+        const localVelocity = Math.hypot(curr.x - p.x, curr.y - p.y);
+        // Hybrid Velocity: Use max of local movement or global body movement (scaled down)
+        const metric = Math.max(localVelocity, globalVelocity * 0.6);
+
+        const minAlpha = 0.08; 
+        const maxAlpha = 0.92; 
+        
+        const lowerThreshold = 0.0005;
+        const upperThreshold = 0.025; 
+        
+        let alpha = minAlpha;
+        
+        if (metric > lowerThreshold) {
+            // Cubic Ease-Out for snappier response
+            const t = Math.min(1, (metric - lowerThreshold) / (upperThreshold - lowerThreshold));
+            const curve = 1 - Math.pow(1 - t, 3);
+            alpha = minAlpha + (maxAlpha - minAlpha) * curve;
+        }
+
+        return {
+            x: lerp(p.x, curr.x, alpha),
+            y: lerp(p.y, curr.y, alpha),
+            z: lerp(p.z, curr.z, alpha),
+            visibility: curr.visibility
+        };
+    });
+};
+
+// Exponential moving average of hip movement between two landmark sets
+export const updateStability = (score: number, current: NormalizedLandmark[], reference: NormalizedLandmark[]): number => {
+    const currentHips = {
+        x: (current[LANDMARK.LEFT_HIP].x + current[LANDMARK.RIGHT_HIP].x) / 2,
+        y: (current[LANDMARK.LEFT_HIP].y + current[LANDMARK.RIGHT_HIP].y) / 2
+    };
+    const referenceHips = {
+        x: (reference[LANDMARK.LEFT_HIP].x + reference[LANDMARK.RIGHT_HIP].x) / 2,
+        y: (reference[LANDMARK.LEFT_HIP].y + reference[LANDMARK.RIGHT_HIP].y) / 2
+    };
+    const movement = Math.hypot(currentHips.x - referenceHips.x, currentHips.y - referenceHips.y);
+    return (score * 0.9) + (movement * 0.1);
+};
@@ -0,0 +1,157 @@
+import { CoachReport, HoldStats, SessionExport, WorkoutSession } from '../types';
+import { SESSION_SCHEMA_VERSION } from '../services/sessionStore';
+import { isExerciseId } from '../services/exerciseRegistry';
+import { createValidator } from './validation';
+import { describeSafetyIssue } from './sessionStats';
+
+export const SESSION_EXPORT_FORMAT = 'formfit-session';
+export const SESSION_EXPORT_VERSION = 1;
+
+export const toSessionExport = (session: WorkoutSession): SessionExport => {
+  const { schemaVersion, transcript, ...rest } = session;
+  return {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      ...rest,
+      transcript: transcript.map(log => ({ ...log, timestamp: new Date(log.timestamp).toISOString() }))
+    }
+  };
+};
+
+export const exportSessionJson = (session: WorkoutSession) => JSON.stringify(toSessionExport(session), null, 2);
+
+const csvCell = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per rep, cue and coach report, ordered by time, for spreadsheet review
+export const exportSessionCsv = (session: WorkoutSession) => {
+  const header = ['type', 'time', 'offset_s', 'set', 'rep', 'duration_ms', 'lowering_ms', 'bottom_ms', 'lifting_ms', 'lockout_ms', 'min_angle', 'side', 'left_rom', 'right_rom', 'source', 'text'];
+  const setFor = (timestamp: number) => session.sets.find(set => timestamp >= set.startTime && timestamp <= set.endTime)?.index;
+
+  const rows: { timestamp: number; cells: (string | number | undefined)[] }[] = [
+    ...session.reps.map(rep => ({
+      timestamp: rep.timestamp,
+      cells: ['rep', setFor(rep.timestamp), rep.count, rep.durationMs, rep.tempo.loweringMs, rep.tempo.bottomMs, rep.tempo.liftingMs, rep.tempo.lockoutMs, rep.minAngle,
+        rep.side, rep.sides?.left.rangeOfMotion, rep.sides?.right.rangeOfMotion, undefined, rep.coachQuality]
+    })),
+    ...session.cues.map(cue => ({
+      timestamp: cue.timestamp,
+      cells: ['cue', undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, cue.source, cue.text]
+    })),
+    ...session.coachReports.map(report => ({
+      timestamp: report.timestamp,
+      cells: [`coach_${report.type}`, undefined, report.type === 'rep' ? report.count : undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, 'gemini',
+        report.type === 'rep' ? report.quality : report.type === 'safety' ? describeSafetyIssue(report) : report.score]
+    }))
+  ].sort((a, b) => a.timestamp - b.timestamp);
+
+  const lines = rows.map(({ timestamp, cells }) => {
+    const [type, ...restCells] = cells;
+    const offset = ((timestamp - session.startTime) / 1000).toFixed(2);
+    return [type, new Date(timestamp).toISOString(), offset, ...restCells].map(csvCell).join(',');
+  });
+  return [header.join(','), ...lines].join('\n');
+};
+
+// --- IMPORT ---
+
+const REP_QUALITIES = ['good', 'fair', 'poor'] as const;
+const HOLD_STATUSES = ['WAITING', 'HOLDING', 'BROKEN'] as const;
+
+const { fail, expectNumber, expectString, expectArray, expectObject, expectFields, expectOneOf, parseJson } = createValidator('Invalid session file');
+
+// Parses and validates an exported JSON document, throwing a readable error on bad input
+export const parseSessionJson = (text: string): WorkoutSession => {
+  const root = expectObject(parseJson(text), 'file');
+  if (root.format !== SESSION_EXPORT_FORMAT) fail('format', `"${SESSION_EXPORT_FORMAT}"`);
+  if (root.version !== SESSION_EXPORT_VERSION) {
+    throw new Error(`Unsupported session file version ${root.version} (expected ${SESSION_EXPORT_VERSION})`);
+  }
+
+  const s = expectObject(root.session, 'session');
+  expectString(s.id, 'session.id');
+  if (!isExerciseId(s.workout)) fail('session.workout', 'a built-in exercise or a "custom:" exercise id');
+  expectNumber(s.startTime, 'session.startTime');
+  expectNumber(s.endTime, 'session.endTime');
+
+  expectArray(s.sets, 'session.sets').forEach((set, i) =>
+    expectFields(set, `session.sets[${i}]`, ['index', 'reps', 'startTime', 'endTime', 'timeUnderTensionMs']));
+
+  expectArray(s.reps, 'session.reps').forEach((rep, i) => {
+    const r = expectFields(rep, `session.reps[${i}]`, ['count', 'timestamp', 'durationMs', 'minAngle']);
+    if (r.workout !== s.workout) fail(`session.reps[${i}].workout`, `"${s.workout}"`);
+    expectFields(r.tempo, `session.reps[${i}].tempo`, ['loweringMs', 'bottomMs', 'liftingMs', 'lockoutMs']);
+    if (r.side !== undefined) expectOneOf(r.side, `session.reps[${i}].side`, ['left', 'right'] as const);
+    if (r.coachQuality !== undefined) expectOneOf(r.coachQuality, `session.reps[${i}].coachQuality`, REP_QUALITIES);
+    if (r.sides !== undefined) {
+      const sides = expectObject(r.sides, `session.reps[${i}].sides`);
+      (['left', 'right'] as const).forEach(side =>
+        expectFields(sides[side], `session.reps[${i}].sides.${side}`, ['minAngle', 'rangeOfMotion', 'eccentricMs', 'concentricMs']));
+    }
+  });
+
+  const parseHold = (value: unknown, path: string) => {
+    const hold = expectFields(value, path, ['targetMs', 'validMs', 'breaks', 'longestCleanMs']);
+    expectOneOf(hold.status, `${path}.status`, HOLD_STATUSES);
+    return hold as HoldStats;
+  };
+  // Older exports carry only the last set's hold
+  const holds = s.holds === undefined
+    ? (s.hold === null || s.hold === undefined ? [] : [parseHold(s.hold, 'session.hold')])
+    : expectArray(s.holds, 'session.holds').map((hold, i) => parseHold(hold, `session.holds[${i}]`));
+
+  expectArray(s.cues, 'session.cues').forEach((cue, i) => {
+    const c = expectFields(cue, `session.cues[${i}]`, ['timestamp']);
+    expectString(c.text, `session.cues[${i}].text`);
+    expectOneOf(c.source, `session.cues[${i}].source`, ['gemini', 'scripted', 'heuristic'] as const);
+  });
+
+  expectFields(s.tracking, 'session.tracking', ['GOOD', 'POOR', 'LOST']);
+
+  // Older exports predate coach reports
+  const coachReports = s.coachReports === undefined ? [] : expectArray(s.coachReports, 'session.coachReports').map((report, i) => {
+    const path = `session.coachReports[${i}]`;
+    const r = expectFields(report, path, ['timestamp']);
+    switch (expectOneOf(r.type, `${path}.type`, ['rep', 'safety', 'formScore'] as const)) {
+      case 'rep':
+        expectNumber(r.count, `${path}.count`);
+        expectOneOf(r.quality, `${path}.quality`, REP_QUALITIES);
+        break;
+      case 'safety':
+        expectOneOf(r.severity, `${path}.severity`, ['low', 'medium', 'high'] as const);
+        expectString(r.bodyPart, `${path}.bodyPart`);
+        break;
+      case 'formScore':
+        expectNumber(r.score, `${path}.score`);
+        break;
+    }
+    return r as CoachReport;
+  });
+
+  const transcript = expectArray(s.transcript, 'session.transcript').map((log, i) => {
+    const l = expectObject(log, `session.transcript[${i}]`);
+    expectString(l.id, `session.transcript[${i}].id`);
+    expectString(l.text, `session.transcript[${i}].text`);
+    if (!['user', 'model', 'system'].includes(l.role)) fail(`session.transcript[${i}].role`, '"user", "model" or "system"');
+    const timestamp = new Date(l.timestamp);
+    if (isNaN(timestamp.getTime())) fail(`session.transcript[${i}].timestamp`, 'an ISO date');
+    return { id: l.id, role: l.role, text: l.text, timestamp };
+  });
+
+  const { transcript: _, hold: __, ...rest } = s;
+  return { ...(rest as Omit<WorkoutSession, 'schemaVersion' | 'transcript'>), schemaVersion: SESSION_SCHEMA_VERSION, holds, transcript, coachReports };
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
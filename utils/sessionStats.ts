@@ -0,0 +1,149 @@
+import { CoachReport, CueEvent, HoldStats, RepEvent, RepQuality, SetSummary, SessionReport, Side, SideSummary, SymmetryReport, WorkoutSession } from '../types';
+import { timeUnderTension } from '../services/tempoTracker';
+import { DEFAULT_IMBALANCE_PCT, percentDiff, sideLabel, SIDES } from '../services/symmetryTracker';
+
+// Without a program, a gap this long between reps (or a change of exercise) starts a new set
+export const SET_BREAK_MS = 20000;
+
+// Programs pass the time each of their sets began, numbering sets in that
+// order; a set with no reps is left out
+export const summarizeSets = (reps: RepEvent[], setStarts?: number[]): SetSummary[] => {
+  const sets: SetSummary[] = [];
+  let prev: RepEvent | null = null;
+  let prevSet = 0;
+
+  for (const rep of reps) {
+    const current = sets[sets.length - 1];
+    // Strictly before: a set ended by a rep can start the next one in the same millisecond
+    const set = setStarts ? setStarts.filter(start => start < rep.timestamp).length : 0;
+    const isNewSet = !current || !prev || (setStarts
+      ? set !== prevSet
+      : prev.workout !== rep.workout || rep.timestamp - prev.timestamp > SET_BREAK_MS);
+    if (isNewSet) {
+      sets.push({
+        index: setStarts ? set : sets.length + 1,
+        reps: 1,
+        startTime: rep.timestamp - rep.durationMs,
+        endTime: rep.timestamp,
+        timeUnderTensionMs: timeUnderTension(rep.tempo)
+      });
+    } else {
+      current.reps++;
+      current.endTime = rep.timestamp;
+      current.timeUnderTensionMs += timeUnderTension(rep.tempo);
+    }
+    prev = rep;
+    prevSet = set;
+  }
+  return sets;
+};
+
+// Adds up the sets of a hold: time and breaks are summed, the longest clean
+// stretch is the best of any set, and the status is the last set's
+export const totalHold = (holds: HoldStats[]): HoldStats | null => {
+  if (holds.length === 0) return null;
+  return {
+    status: holds[holds.length - 1].status,
+    targetMs: holds.reduce((sum, h) => sum + h.targetMs, 0),
+    validMs: holds.reduce((sum, h) => sum + h.validMs, 0),
+    breaks: holds.reduce((sum, h) => sum + h.breaks, 0),
+    longestCleanMs: Math.max(...holds.map(h => h.longestCleanMs))
+  };
+};
+
+// Per-side rep counts and averages. A unilateral rep counts for its working
+// side only; reps where both sides moved count for both.
+export const summarizeSymmetry = (reps: RepEvent[], thresholdPct = DEFAULT_IMBALANCE_PCT): SymmetryReport | null => {
+  const measured = reps.filter(rep => rep.sides);
+  if (measured.length === 0) return null;
+
+  const summarize = (side: Side): SideSummary => {
+    const metrics = measured.filter(rep => !rep.side || rep.side === side).map(rep => rep.sides![side]);
+    const avg = (values: number[]) => values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+    return {
+      reps: metrics.length,
+      avgRangeOfMotion: avg(metrics.map(m => m.rangeOfMotion)),
+      avgEccentricMs: avg(metrics.map(m => m.eccentricMs))
+    };
+  };
+  const left = summarize('left');
+  const right = summarize('right');
+
+  const repsDiffPct = percentDiff(left.reps, right.reps);
+  const rangeOfMotionDiffPct = percentDiff(left.avgRangeOfMotion, right.avgRangeOfMotion);
+  const tempoDiffPct = percentDiff(left.avgEccentricMs, right.avgEccentricMs);
+  const sides = { left, right };
+  const lower = (pick: (s: SideSummary) => number) => SIDES.reduce((a, b) => pick(sides[a]) <= pick(sides[b]) ? a : b);
+
+  const imbalances: string[] = [];
+  if (repsDiffPct > thresholdPct) {
+    imbalances.push(`${sideLabel(lower(s => s.reps))} side did ${Math.round(repsDiffPct)}% fewer reps`);
+  }
+  if (rangeOfMotionDiffPct > thresholdPct) {
+    imbalances.push(`${sideLabel(lower(s => s.avgRangeOfMotion))} side averaged ${Math.round(rangeOfMotionDiffPct)}% less range of motion`);
+  }
+  if (tempoDiffPct > thresholdPct) {
+    imbalances.push(`${sideLabel(lower(s => s.avgEccentricMs))} side lowered ${Math.round(tempoDiffPct)}% faster`);
+  }
+
+  return { left, right, repsDiffPct, rangeOfMotionDiffPct, tempoDiffPct, thresholdPct, imbalances };
+};
+
+// Gemini is instructed to lead with "STOP" when something is dangerous
+export const isSafetyCue = (text: string) => /^\s*STOP\b/i.test(text);
+
+export const describeSafetyIssue = (report: Extract<CoachReport, { type: 'safety' }>) =>
+  `${report.severity.toUpperCase()} risk: ${report.bodyPart}`;
+
+const summarizeCoachReports = (reports: CoachReport[]): SessionReport['coach'] => {
+  if (reports.length === 0) return null;
+  const repQuality: Record<RepQuality, number> = { good: 0, fair: 0, poor: 0 };
+  const scores: number[] = [];
+  let reps = 0;
+  for (const report of reports) {
+    if (report.type === 'rep') {
+      reps++;
+      repQuality[report.quality]++;
+    } else if (report.type === 'formScore') {
+      scores.push(report.score);
+    }
+  }
+  const avgFormScore = scores.length > 0 ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : null;
+  return { reps, repQuality, avgFormScore };
+};
+
+export const buildSessionReport = (session: WorkoutSession, topCueCount = 5, imbalanceThresholdPct = DEFAULT_IMBALANCE_PCT): SessionReport => {
+  const cueCounts = new Map<string, number>();
+  for (const cue of session.cues) {
+    const text = cue.text.trim();
+    if (text) cueCounts.set(text, (cueCounts.get(text) ?? 0) + 1);
+  }
+  const topCues = [...cueCounts.entries()]
+    .map(([text, count]) => ({ text, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, topCueCount);
+
+  const flagged: CueEvent[] = session.coachReports.flatMap(report =>
+    report.type === 'safety' ? [{ text: describeSafetyIssue(report), source: 'gemini' as const, timestamp: report.timestamp }] : []);
+  const safetyCues = [...session.cues.filter(cue => cue.source !== 'heuristic' && isSafetyCue(cue.text)), ...flagged]
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const { GOOD, POOR, LOST } = session.tracking;
+  const trackedMs = GOOD + POOR + LOST;
+  const trackingShare = trackedMs > 0
+    ? { GOOD: GOOD / trackedMs, POOR: POOR / trackedMs, LOST: LOST / trackedMs }
+    : { GOOD: 0, POOR: 0, LOST: 0 };
+
+  return {
+    durationMs: session.endTime - session.startTime,
+    totalReps: session.reps.length,
+    sets: session.sets,
+    hold: totalHold(session.holds),
+    holds: session.holds,
+    topCues,
+    trackingShare,
+    safetyCues,
+    coach: summarizeCoachReports(session.coachReports),
+    symmetry: summarizeSymmetry(session.reps, imbalanceThresholdPct)
+  };
+};
@@ -0,0 +1,47 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { PoseTelemetry, TelemetryField, WorkoutDef } from '../types';
+import { getWorkout } from '../services/exerciseRegistry';
+import { LANDMARK } from './poseUtils';
+import { measureScaled, RuleContext } from './formRules';
+
+// How often a telemetry message goes to the coach while a session runs
+export const TELEMETRY_INTERVAL_MS = 1000;
+
+const LANDMARK_NAMES = Object.fromEntries(Object.entries(LANDMARK).map(([name, idx]) => [idx, name]));
+
+// "LEFT_KNEE" -> "kneeL"
+const jointKey = (idx: number) => {
+  const [side, ...rest] = (LANDMARK_NAMES[idx] ?? `JOINT_${idx}`).toLowerCase().split('_');
+  const name = rest.map((part, i) => i === 0 ? part : part[0].toUpperCase() + part.slice(1)).join('');
+  return side === 'left' ? `${name}L` : side === 'right' ? `${name}R` : `${side}${name}`;
+};
+
+// The definition's fields, or the angle at each rep pattern joint
+export const telemetryFields = (def: WorkoutDef): TelemetryField[] =>
+  def.telemetry ?? (def.repPattern?.joints ?? []).map(([a, b, c]) => ({
+    key: jointKey(b),
+    metric: { type: 'angle', points: [a, b, c] }
+  }));
+
+export const measureTelemetry = (fields: TelemetryField[], landmarks: NormalizedLandmark[], ctx: RuleContext) =>
+  Object.fromEntries(fields.map(field => {
+    const value = measureScaled(field.metric, field.scale, landmarks, ctx);
+    const rounded = value === null ? null : field.metric.type === 'angle' ? Math.round(value) : Math.round(value * 100) / 100;
+    return [field.key, rounded];
+  }));
+
+// One compact line, e.g.
+// [telemetry] Bodyweight Squat reps=4 phase=Descending view=FRONT kneeL=92 kneeR=95 cue="Push Knees Out!"
+export const formatTelemetry = (sample: PoseTelemetry) => {
+  const def = getWorkout(sample.workout);
+  const parts = [`[telemetry] ${def.name}`];
+  if (def.repPattern) {
+    parts.push(`reps=${sample.reps}`);
+    if (sample.phase) parts.push(`phase=${def.repPattern.labels[sample.phase]}`);
+  }
+  if (sample.hold) parts.push(`hold=${Math.round(sample.hold.validMs / 1000)}/${Math.round(sample.hold.targetMs / 1000)}s`, `status=${sample.hold.status}`);
+  if (sample.view) parts.push(`view=${sample.view}`);
+  Object.entries(sample.metrics).forEach(([key, value]) => parts.push(`${key}=${value ?? '?'}`));
+  if (sample.cue) parts.push(`cue="${sample.cue}"`);
+  return parts.join(' ');
+};
@@ -0,0 +1,50 @@
+// Shared checks for user-supplied JSON documents. Every failure throws an Error
+// naming the offending path, e.g. "Invalid session file: session.id must be a string".
+export const createValidator = (label: string) => {
+  const fail = (path: string, expected: string): never => {
+    throw new Error(`${label}: ${path} must be ${expected}`);
+  };
+
+  const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  const expectNumber = (value: unknown, path: string) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'a number');
+    return value as number;
+  };
+
+  const expectString = (value: unknown, path: string) => {
+    if (typeof value !== 'string') fail(path, 'a string');
+    return value as string;
+  };
+
+  const expectArray = (value: unknown, path: string): unknown[] => {
+    if (!Array.isArray(value)) fail(path, 'an array');
+    return value as unknown[];
+  };
+
+  const expectObject = (value: unknown, path: string): Record<string, any> => {
+    if (!isObject(value)) fail(path, 'an object');
+    return value as Record<string, any>;
+  };
+
+  const expectFields = (value: unknown, path: string, fields: string[]) => {
+    const obj = expectObject(value, path);
+    fields.forEach(field => expectNumber(obj[field], `${path}.${field}`));
+    return obj;
+  };
+
+  const expectOneOf = <T extends string>(value: unknown, path: string, options: readonly T[]): T => {
+    if (!options.includes(value as T)) fail(path, `one of ${options.map(o => `"${o}"`).join(', ')}`);
+    return value as T;
+  };
+
+  const parseJson = (text: string): unknown => {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`${label}: not valid JSON`);
+    }
+  };
+
+  return { fail, isObject, expectNumber, expectString, expectArray, expectObject, expectFields, expectOneOf, parseJson };
+};
@@ -0,0 +1,18 @@
+// Session controls that can be spoken instead of clicked
+export type VoiceCommand = 'start' | 'pause' | 'next' | 'reps';
+
+// Controls must be the whole utterance, so a question that merely mentions
+// pausing isn't one; the rep count can be asked for in passing
+const COMMAND_PATTERNS: [VoiceCommand, RegExp][] = [
+  ['reps', /\bhow many reps\b|\brep count\b/],
+  ['next', /^(next|skip)( exercise| one| block)?$/],
+  ['pause', /^(pause|hold on|wait)( (it|now|please|the session))?$/],
+  ['start', /^(start|go|resume|continue|begin|let'?s go)( (it|now|please|again|the session))?$/]
+];
+
+// The command in a recognized utterance, or null for anything else (e.g. a
+// question for the coach)
+export const parseVoiceCommand = (utterance: string): VoiceCommand | null => {
+  const text = utterance.toLowerCase().replace(/[.,!?]/g, '').replace(/\s+/g, ' ').trim();
+  return COMMAND_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+};